@@ -1,17 +1,45 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { extractTextFromPdf, getPageCount, splitPdf, ProgressCallback } from './services/pdfService';
-import { extractLegalData, extractLegalDataFromModality } from './services/geminiService';
-import { LegalProcess, GroupedProcesses, WorkspaceFile, HistoryItem } from './types';
+import { extractPagesFromPdf, getPageCount, planSplit, splitPdf, highlightPdf, ProgressCallback } from './services/pdfService';
+import { planProcessBoundaries, DISCARD_PAGE } from './services/boundaryService';
+import { extractLegalData, extractLegalDataFromModality, getProvider, configureRateLimit, PROVIDER_OPTIONS } from './services/extractionService';
+import { enrichProcesses, groupByForo, regroupHistory, regroupResults, appendProcesses, describeProcessDetails, indexByNumber, processesFromResults } from './services/resultService';
+import { addAlias, removeAlias, canonicalizeForo, foroKey } from './services/foroService';
+import { RetryOptions } from './services/responseService';
+import { loadHistory, saveHistory, loadWorkspace, saveWorkspace, loadDocuments, saveDocuments, getStorageUsage, pruneDocuments, formatBytes, StorageUsage } from './services/storageService';
+import { chunkPages, runWithConcurrency, mergeExtractionResults, DEFAULT_CHUNK_CONCURRENCY } from './services/chunkService';
+import { extractCnjProcesses, filterBySearchList, FORO_NAO_IDENTIFICADO, mergeWithBaseline, attachOccurrences, validateCnj, splitByValidity, countInvalid, countInvalidByForo, onlyDigits, formatCnj, InvalidEntry } from './services/cnjService';
+import { LegalProcess, GroupedProcesses, WorkspaceFile, HistoryItem, ExtractionResult, AppSettings, ForoAliases, DivisorMode, SplitStrategy, PlannedPart, SearchReport, NearMatch, DjePublication, ProcessDeadline, CourtHoliday } from './types';
 import { jsPDF } from 'jspdf';
+import PagePreview from './components/PagePreview';
+import MergeTool from './components/MergeTool';
+import BackupImportDialog from './components/BackupImportDialog';
+import SearchReportPanel from './components/SearchReportPanel';
+import PublicationsPanel from './components/PublicationsPanel';
+import DeadlinePanel from './components/DeadlinePanel';
+import { buildFilteredPdf, FilteredSelection } from './services/filteredPdfService';
+import { buildHighlightTargets, foroColors, toCssColor, HighlightColorMode } from './services/highlightService';
+import { buildTable, resultsAsSource, TableFormat, TableSource } from './services/tableExportService';
+import { createBackup, readBackup, previewImport, applyImport, ImportPreview } from './services/backupService';
+import { buildSearchReport, formatSearchReport, confirmNearMatch, rejectNearMatch } from './services/searchReportService';
+import { findNearMatches } from './services/fuzzyMatchService';
+import { segmentPublications, attachPublicationLawyers, formatPublications, buildLawyerFiles } from './services/djeService';
+import { createZip } from './services/zipService';
+import { DEFAULT_HOLIDAYS } from './services/calendarService';
+import { upsertDeadlines, removeDeadline } from './services/deadlineService';
+import { buildCalendar, parseSnippetLink, snippetLinkHash, CalendarSource } from './services/icsService';
+
+// What the detail view needs from a history item or a completed workspace file.
+type DetailSource = Pick<HistoryItem, 'name' | 'results'> & Partial<Pick<HistoryItem, 'id' | 'processes' | 'sourceId' | 'timestamp' | 'searchReport' | 'publications' | 'deadlines'>>;
 
 const App: React.FC = () => {
   const [view, setView] = useState<'home' | 'tool' | 'detail'>('home');
   const [sidebarTab, setSidebarTab] = useState<'workspace' | 'history'>('workspace');
-  const [toolMode, setToolMode] = useState<'extract' | 'split' | 'consolidated' | 'ocr'>('extract');
+  const [toolMode, setToolMode] = useState<'extract' | 'split' | 'merge' | 'consolidated' | 'ocr'>('extract');
   const [loading, setLoading] = useState(false);
   const [progress, setProgress] = useState<{current: number, total: number, phase: 'extracting' | 'analyzing' | 'idle'}>({current: 0, total: 0, phase: 'idle'});
   const [error, setError] = useState<string | null>(null);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
   
   // Data States
   const [groupedData, setGroupedData] = useState<GroupedProcesses | null>(null);
@@ -19,18 +47,50 @@ const App: React.FC = () => {
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [expandedResults, setExpandedResults] = useState<Record<string, boolean>>({});
   const [searchQuery, setSearchQuery] = useState('');
+  // Diário Oficial mode: the gazette text is also split into publications with the lawyers they notify.
+  const [djeMode, setDjeMode] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>({
+    engine: 'hybrid',
+    provider: 'gemini',
+    openai: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' },
+    concurrency: 2,
+    requestsPerMinute: 30,
+    detailedExtraction: false
+  });
   
   // Detail View Tabs and Selection
-  const [detailTab, setDetailTab] = useState<'summary' | 'details'>('summary');
+  const [detailTab, setDetailTab] = useState<'summary' | 'details' | 'search' | 'publications' | 'deadlines'>('summary');
+  const [detailSearchReport, setDetailSearchReport] = useState<SearchReport | undefined>(undefined);
+  const [detailPublications, setDetailPublications] = useState<DjePublication[] | undefined>(undefined);
+  const [detailDeadlines, setDetailDeadlines] = useState<ProcessDeadline[]>([]);
+  const [detailHistoryId, setDetailHistoryId] = useState<string | undefined>(undefined);
+  const [expandedProcesses, setExpandedProcesses] = useState<Set<string>>(new Set());
   const [selectedForos, setSelectedForos] = useState<Set<string>>(new Set());
+  const [selectedProcesses, setSelectedProcesses] = useState<Set<string>>(new Set());
+  const [exportingFilteredPdf, setExportingFilteredPdf] = useState(false);
+  const [highlightColorMode, setHighlightColorMode] = useState<HighlightColorMode>('foro');
+  const [exportingHighlights, setExportingHighlights] = useState(false);
+  const [detailProcesses, setDetailProcesses] = useState<Record<string, LegalProcess>>({});
+  const [detailSourceId, setDetailSourceId] = useState<string | undefined>(undefined);
+  const [detailTimestamp, setDetailTimestamp] = useState<number>(Date.now());
+  const [pagePreview, setPagePreview] = useState<{ processo: string; pagina: number; trecho: string } | null>(null);
 
   // Consolidated View Selection and Sorting
   const [consolidatedSelection, setConsolidatedSelection] = useState<Set<string>>(new Set());
   const [foroSortOrder, setForoSortOrder] = useState<'asc' | 'desc'>('asc');
 
-  // Sequential Processing State
-  const [isSequentialRunning, setIsSequentialRunning] = useState(false);
+  // Foro Alias Dictionary
+  const [aliases, setAliases] = useState<ForoAliases>({});
+  const [aliasVariant, setAliasVariant] = useState('');
+  const [aliasCanonical, setAliasCanonical] = useState('');
+
+  // Court holiday calendar used for deadline counting (editable, starts from the bundled defaults)
+  const [holidays, setHolidays] = useState<CourtHoliday[]>(DEFAULT_HOLIDAYS);
+
+  // Batch Queue State
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
   const isBatchStopped = useRef(false);
+  const [jobProgress, setJobProgress] = useState<Record<string, { current: number, total: number, phase: 'extracting' | 'analyzing', note?: string }>>({});
 
   // Simulated Analyzing Progress
   const [simulatedProgress, setSimulatedProgress] = useState(0);
@@ -41,24 +101,150 @@ const App: React.FC = () => {
   const [totalPages, setTotalPages] = useState<number | null>(null);
   const [pagesPerPart, setPagesPerPart] = useState<number>(10);
   const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [splitMode, setSplitMode] = useState<DivisorMode>('fixed');
+  const [splitRanges, setSplitRanges] = useState('');
+  const [splitMaxMb, setSplitMaxMb] = useState<number>(10);
+  const [splitPlan, setSplitPlan] = useState<PlannedPart[] | null>(null);
+  // Page texts and manual page assignments for the process-boundary mode; its plan is derived from them.
+  const [boundaryPages, setBoundaryPages] = useState<string[] | null>(null);
+  const [boundaryManual, setBoundaryManual] = useState<Record<number, string>>({});
+
+  // Original documents referenced by HistoryItem.sourceId (workspace files are looked up by their own id)
+  const [documents, setDocuments] = useState<Record<string, Blob>>({});
+
+  // Backup / restore
+  const [backupIncludeDocuments, setBackupIncludeDocuments] = useState(false);
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+
+  // Persistent Storage (IndexedDB)
+  const [storageReady, setStorageReady] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
 
   // Cancellation Tracking
-  const activeProcesses = useRef<Record<string, boolean>>({});
+  const activeProcesses = useRef<Record<string, AbortController>>({});
+
+  useEffect(() => {
+    Promise.all([loadHistory(), loadWorkspace(), loadDocuments()])
+      .then(([savedHistory, savedWorkspace, savedDocuments]) => {
+        setHistory(savedHistory);
+        setWorkspace(savedWorkspace);
+        setDocuments(savedDocuments);
+      })
+      .catch((e) => {
+        console.error("Erro ao carregar dados salvos", e);
+        setError('Não foi possível abrir o armazenamento local do navegador. Os dados desta sessão não serão salvos.');
+      })
+      .finally(() => setStorageReady(true));
+  }, []);
+
+  const persist = (save: Promise<void>) => {
+    save.catch((e: any) => {
+      console.error("Erro ao salvar dados", e);
+      setError(e?.name === 'QuotaExceededError'
+        ? 'Espaço de armazenamento esgotado. Use as ferramentas de limpeza na barra lateral.'
+        : 'Erro ao salvar dados no armazenamento local.');
+    });
+  };
+
+  useEffect(() => {
+    if (storageReady) persist(saveHistory(history));
+  }, [history, storageReady]);
+
+  // Calendar events link back here as #trecho/<history id>/<process digits>/<page>; open that snippet once storage has loaded.
+  useEffect(() => {
+    if (!storageReady) return;
+    const link = parseSnippetLink(window.location.hash);
+    if (!link) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    const item = history.find(h => h.id === link.historyId);
+    if (!item) return;
+    openDetailView(item);
+    const process = item.processes?.find(p => onlyDigits(p.processo) === link.digits);
+    const occurrence = process?.ocorrencias?.find(oc => oc.pagina === link.pagina);
+    const publication = item.publications?.find(p => onlyDigits(p.processo) === link.digits && p.paginas.includes(link.pagina));
+    setPagePreview({ processo: process?.processo || formatCnj(link.digits), pagina: link.pagina, trecho: occurrence?.trecho || publication?.texto.slice(0, 200) || '' });
+  }, [storageReady]);
+
+  useEffect(() => {
+    if (storageReady) persist(saveWorkspace(workspace));
+  }, [workspace, storageReady]);
+
+  useEffect(() => {
+    if (storageReady) persist(saveDocuments(documents));
+  }, [documents, storageReady]);
+
+  // Usage only moves noticeably when files or analyses are added or removed, not on every status update.
+  const storageUsageKey = `${workspace.map(f => f.id).join(',')}|${Object.keys(documents).join(',')}|${history.length}`;
 
   useEffect(() => {
-    const savedHistory = localStorage.getItem('legal_filter_history');
-    if (savedHistory) {
+    if (storageReady) getStorageUsage(workspace, documents, history).then(setStorageUsage).catch(() => setStorageUsage(null));
+  }, [storageUsageKey, storageReady]);
+
+  useEffect(() => {
+    const savedSettings = localStorage.getItem('legal_filter_settings');
+    if (savedSettings) {
       try {
-        setHistory(JSON.parse(savedHistory));
+        setSettings(prev => ({ ...prev, ...JSON.parse(savedSettings) }));
       } catch (e) {
-        console.error("Erro ao carregar histórico");
+        console.error("Erro ao carregar configurações");
       }
     }
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('legal_filter_history', JSON.stringify(history));
-  }, [history]);
+    localStorage.setItem('legal_filter_settings', JSON.stringify(settings));
+  }, [settings]);
+
+  useEffect(() => {
+    configureRateLimit(settings.requestsPerMinute);
+  }, [settings.requestsPerMinute]);
+
+  // Any change to the Divisor parameters invalidates the previewed plan.
+  useEffect(() => {
+    setSplitPlan(null);
+    setBoundaryPages(null);
+    setBoundaryManual({});
+  }, [currentFile, splitMode, pagesPerPart, splitRanges, splitMaxMb]);
+
+  const boundaryPlan = useMemo(
+    () => boundaryPages ? planProcessBoundaries(boundaryPages, aliases, boundaryManual) : null,
+    [boundaryPages, aliases, boundaryManual]
+  );
+
+  useEffect(() => {
+    if (boundaryPlan) setSplitPlan(boundaryPlan.parts);
+  }, [boundaryPlan]);
+
+  useEffect(() => {
+    const savedAliases = localStorage.getItem('legal_filter_aliases');
+    if (savedAliases) {
+      try {
+        setAliases(JSON.parse(savedAliases));
+      } catch (e) {
+        console.error("Erro ao carregar dicionário de foros");
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('legal_filter_aliases', JSON.stringify(aliases));
+  }, [aliases]);
+
+  useEffect(() => {
+    const savedHolidays = localStorage.getItem('legal_filter_holidays');
+    if (savedHolidays) {
+      try {
+        setHolidays(JSON.parse(savedHolidays));
+      } catch (e) {
+        console.error("Erro ao carregar calendário de feriados");
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('legal_filter_holidays', JSON.stringify(holidays));
+  }, [holidays]);
 
   // Derived Data for Consolidated View
   const globalForos = useMemo(() => {
@@ -73,6 +259,10 @@ const App: React.FC = () => {
     return map;
   }, [history]);
 
+  const detailForoColors = useMemo(() => groupedData ? foroColors(groupedData) : {}, [groupedData]);
+
+  const invalidByForo = useMemo(() => groupedData ? countInvalidByForo(groupedData) : {}, [groupedData]);
+
   // Sorted Global Foros for UI
   const sortedGlobalForos = useMemo(() => {
     const entries = Object.entries(globalForos);
@@ -108,16 +298,43 @@ const App: React.FC = () => {
     setExpandedResults(prev => ({ ...prev, [id]: !prev[id] }));
   };
 
+  const DIRECT_PROCESS_IDS = ['direct_upload', 'direct_ocr', 'direct_split'];
+
+  // Each job owns an AbortController; only the latest controller registered for an id may clear it.
+  const startProcess = (id: string, controller = new AbortController()) => {
+    activeProcesses.current[id] = controller;
+    return controller;
+  };
+
+  const finishProcess = (id: string, controller: AbortController) => {
+    if (activeProcesses.current[id] === controller) delete activeProcesses.current[id];
+  };
+
+  // Stops only the given job: aborting cancels PDF parsing and the in-flight AI request.
+  // A direct upload resets the global progress card, a workspace file is marked as cancelled.
   const stopAnalysis = (id: string) => {
-    isBatchStopped.current = true;
-    Object.keys(activeProcesses.current).forEach(key => {
-      activeProcesses.current[key] = false;
+    activeProcesses.current[id]?.abort();
+    if (DIRECT_PROCESS_IDS.includes(id)) {
+      setLoading(false);
+      setProgress({current: 0, total: 0, phase: 'idle'});
+      setError(null);
+      return;
+    }
+    setWorkspace(prev => prev.map(f => f.id === id && (f.status === 'processing' || f.status === 'queued') ? { ...f, status: 'cancelled' } : f));
+    setJobProgress(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
     });
-    setWorkspace(prev => prev.map(f => ({ ...f, status: f.status === 'processing' ? 'idle' : f.status })));
-    setLoading(false);
-    setIsSequentialRunning(false);
-    setProgress({current: 0, total: 0, phase: 'idle'});
-    setError(null);
+  };
+
+  // Stopping the batch also drops the files still waiting in the queue: their controllers are registered at queue time,
+  // so aborting every workspace controller reaches them even if the rendered workspace is stale.
+  const stopBatch = () => {
+    isBatchStopped.current = true;
+    Object.keys(activeProcesses.current).filter(id => !DIRECT_PROCESS_IDS.includes(id)).forEach(id => activeProcesses.current[id]?.abort());
+    setWorkspace(prev => prev.map(f => f.status === 'processing' || f.status === 'queued' ? { ...f, status: 'cancelled' } : f));
+    setJobProgress({});
   };
 
   const fileToBase64 = (file: File): Promise<string> => {
@@ -165,8 +382,26 @@ const App: React.FC = () => {
     }
   };
 
+  const retryOptions: RetryOptions = {
+    onRetry: (attempt, err) => setRetryNotice(`Nova tentativa (${attempt}) após falha: ${err.message}`),
+  };
+
+  // Failed analyses are kept in the history so an empty result is never confused with an error.
+  const recordFailure = (name: string, message: string, sourceId?: string) => {
+    const failedItem: HistoryItem = {
+      id: crypto.randomUUID(),
+      name,
+      timestamp: Date.now(),
+      results: {},
+      sourceId,
+      error: message
+    };
+    setHistory(prev => [failedItem, ...prev]);
+  };
+
   const processModalityForOcr = async (file: File, name: string, processId: string) => {
-    activeProcesses.current[processId] = true;
+    const controller = startProcess(processId);
+    const { signal } = controller;
     setLoading(true);
     setFileName(name);
     setGroupedData(null);
@@ -175,44 +410,104 @@ const App: React.FC = () => {
     
     try {
       const base64 = await fileToBase64(file);
-      if (!activeProcesses.current[processId]) return;
-
-      const extracted = await extractLegalDataFromModality(base64, file.type, searchQuery);
-      if (!activeProcesses.current[processId]) return;
-
-      const grouped: GroupedProcesses = {};
-      if (extracted.processes && extracted.processes.length > 0) {
-        extracted.processes.forEach((p) => {
-          if (!grouped[p.foro]) grouped[p.foro] = [];
-          grouped[p.foro].push(p.processo);
-        });
-      }
+      if (signal.aborted) return;
+
+      // There is no text layer to scan locally, so the report only covers the requested numbers the model read.
+      const extracted = await extractLegalDataFromModality(getProvider(settings), base64, file.type, { searchList: searchQuery, detailed: settings.detailedExtraction, signal }, retryOptions);
+      if (signal.aborted) return;
+
+      const present = enrichProcesses(extracted.processes || [], aliases);
+      const processes = filterBySearchList(present, searchQuery);
+      const report = searchQuery.trim() ? buildSearchReport(searchQuery, processes, present) : undefined;
+      // Without page text, near-matches can only be looked for among the other numbers the model read.
+      const searchReport = report && { ...report, nearMatches: findNearMatches(report.notFound, report.unrequested.map(p => ({ text: p.processo }))) };
+      const grouped = groupByForo(processes);
       
       setGroupedData(grouped);
       
+      const sourceId = crypto.randomUUID();
+      setDocuments(prev => ({ ...prev, [sourceId]: file }));
       const newHistoryItem: HistoryItem = {
         id: crypto.randomUUID(),
         name: name + (file.type.startsWith('image/') ? ' (OCR Imagem)' : ' (OCR PDF)'),
         timestamp: Date.now(),
-        results: grouped
+        results: grouped,
+        processes,
+        sourceId,
+        warnings: extracted.warnings,
+        searchReport
       };
       setHistory(prev => [newHistoryItem, ...prev]);
       
     } catch (err: any) {
-      if (activeProcesses.current[processId]) {
-        setError(err.message || 'Erro inesperado ao processar o documento via OCR.');
+      if (!signal.aborted) {
+        const message = err.message || 'Erro inesperado ao processar o documento via OCR.';
+        setError(message);
+        recordFailure(name + (file.type.startsWith('image/') ? ' (OCR Imagem)' : ' (OCR PDF)'), message);
       }
     } finally {
-      if (activeProcesses.current[processId]) {
+      setRetryNotice(null);
+      if (!signal.aborted) {
         setLoading(false);
         setProgress({current: 0, total: 0, phase: 'idle'});
-        activeProcesses.current[processId] = false;
       }
+      finishProcess(processId, controller);
     }
   };
 
+  // Local CNJ extraction runs first; in hybrid mode its numbers guide the AI and fill in anything the model drops.
+  const analyzeText = async (rawText: string, signal?: AbortSignal, retry: RetryOptions = retryOptions): Promise<ExtractionResult> => {
+    const baseline = extractCnjProcesses(rawText, searchQuery);
+    if (settings.engine === 'local') return { processes: baseline };
+
+    if (settings.engine === 'hybrid') {
+      const extracted = await extractLegalData(getProvider(settings), rawText, { searchList: searchQuery, knownNumbers: baseline.map(p => p.processo), detailed: settings.detailedExtraction, signal }, retry);
+      return { ...extracted, processes: mergeWithBaseline(extracted.processes, baseline) };
+    }
+
+    return extractLegalData(getProvider(settings), rawText, { searchList: searchQuery, detailed: settings.detailedExtraction, signal }, retry);
+  };
+
+  // In search-list mode the text is scanned again without the filter, so the report also shows what was missing or unrequested.
+  // The model only reads the requested numbers, so unrequested ones come from the local scan, with the foro taken from the number's origin code when it is known.
+  const buildTextSearchReport = (processes: LegalProcess[], pages: string[]) => {
+    if (!searchQuery.trim()) return undefined;
+    const present = attachOccurrences(enrichProcesses(extractCnjProcesses(pages.join('\n')), aliases), pages);
+    const report = buildSearchReport(searchQuery, processes, present);
+    return { ...report, nearMatches: findNearMatches(report.notFound, pages.map((text, idx) => ({ text, pagina: idx + 1 }))) };
+  };
+
+  const runName = (name: string) => name + (searchQuery ? ' (Filtro)' : '') + (djeMode ? ' (DJE)' : '');
+
+  // In DJE mode each publication is kept with its full text, and its notified lawyers fill in processes that have none.
+  const segmentGazette = (processes: LegalProcess[], pages: string[], warnings?: string[]) => {
+    if (!djeMode) return { processes, publications: undefined, warnings };
+    const publications = segmentPublications(pages);
+    return {
+      processes: attachPublicationLawyers(processes, publications),
+      publications,
+      warnings: publications.length > 0 ? warnings : [...(warnings || []), 'Modo DJE: nenhuma publicação reconhecida no texto.'],
+    };
+  };
+
+  // Large documents are split into overlapping page chunks analyzed in parallel and merged back together.
+  const analyzePages = async (pages: string[], onChunk?: ProgressCallback, signal?: AbortSignal, retry: RetryOptions = retryOptions): Promise<ExtractionResult> => {
+    if (settings.engine === 'local') return analyzeText(pages.join('\n'), signal, retry);
+
+    const chunks = chunkPages(pages);
+    let done = 0;
+    onChunk?.(0, chunks.length);
+    const results = await runWithConcurrency(chunks, DEFAULT_CHUNK_CONCURRENCY, async (chunk) => {
+      const result = await analyzeText(chunk.text, signal, retry);
+      onChunk?.(++done, chunks.length);
+      return result;
+    });
+    return mergeExtractionResults(results);
+  };
+
   const processFileForExtraction = async (file: File | Blob, name: string, processId: string) => {
-    activeProcesses.current[processId] = true;
+    const controller = startProcess(processId);
+    const { signal } = controller;
     setLoading(true);
     setFileName(name);
     setGroupedData(null);
@@ -221,135 +516,163 @@ const App: React.FC = () => {
     
     try {
       const onProgress: ProgressCallback = (current, total) => {
-        if (activeProcesses.current[processId]) {
+        if (!signal.aborted) {
           setProgress({current, total, phase: 'extracting'});
         }
       };
 
-      const rawText = await extractTextFromPdf(file, onProgress);
-      if (!activeProcesses.current[processId]) return;
+      const pages = await extractPagesFromPdf(file, onProgress, signal);
+      const rawText = pages.join('\n');
       if (!rawText.trim()) throw new Error('O arquivo parece estar vazio ou não contém texto extraível.');
       
       setProgress({current: 0, total: 0, phase: 'analyzing'});
-      const extracted = await extractLegalData(rawText, searchQuery);
-      if (!activeProcesses.current[processId]) return;
-
-      const grouped: GroupedProcesses = {};
-      if (extracted.processes && extracted.processes.length > 0) {
-        extracted.processes.forEach((p) => {
-          if (!grouped[p.foro]) grouped[p.foro] = [];
-          grouped[p.foro].push(p.processo);
-        });
-      }
+      const onChunk: ProgressCallback = (current, total) => {
+        if (!signal.aborted && total > 1) {
+          setProgress({current, total, phase: 'analyzing'});
+        }
+      };
+      const extracted = await analyzePages(pages, onChunk, signal);
+      if (signal.aborted) return;
+
+      const { processes, publications, warnings } = segmentGazette(attachOccurrences(enrichProcesses(extracted.processes || [], aliases), pages), pages, extracted.warnings);
+      const searchReport = buildTextSearchReport(processes, pages);
+      const grouped = groupByForo(processes);
       
       setGroupedData(grouped);
       
+      const sourceId = crypto.randomUUID();
+      setDocuments(prev => ({ ...prev, [sourceId]: file }));
       const newHistoryItem: HistoryItem = {
         id: crypto.randomUUID(),
-        name: name + (searchQuery ? ' (Filtro)' : ''),
+        name: runName(name),
         timestamp: Date.now(),
-        results: grouped
+        results: grouped,
+        processes,
+        sourceId,
+        warnings,
+        searchReport,
+        publications
       };
       setHistory(prev => [newHistoryItem, ...prev]);
       
     } catch (err: any) {
-      if (activeProcesses.current[processId]) {
-        setError(err.message || 'Erro inesperado ao processar o arquivo.');
+      if (!signal.aborted) {
+        const message = err.message || 'Erro inesperado ao processar o arquivo.';
+        setError(message);
+        recordFailure(runName(name), message);
       }
     } finally {
-      if (activeProcesses.current[processId]) {
+      setRetryNotice(null);
+      if (!signal.aborted) {
         setLoading(false);
         setProgress({current: 0, total: 0, phase: 'idle'});
-        activeProcesses.current[processId] = false;
       }
+      finishProcess(processId, controller);
     }
   };
 
-  const analyzeWorkspaceFile = async (file: WorkspaceFile) => {
-    setToolMode('extract');
-    const processId = 'direct_upload'; 
-    activeProcesses.current[processId] = true;
-    activeProcesses.current[file.id] = true;
-    
-    setFileName(file.name);
-    setLoading(true);
-    setGroupedData(null);
-    setError(null);
-    setProgress({current: 0, total: 0, phase: 'extracting'});
+  // Each workspace file is an independent job: its own process id, progress entry and failure state.
+  const analyzeWorkspaceFile = async (file: WorkspaceFile, controller = startProcess(file.id)) => {
+    const processId = file.id;
+    const { signal } = controller;
+
+    const updateJob = (update: { current: number, total: number, phase: 'extracting' | 'analyzing', note?: string }) => {
+      if (!signal.aborted) {
+        setJobProgress(prev => ({ ...prev, [processId]: { ...prev[processId], ...update } }));
+      }
+    };
 
-    setWorkspace(prev => prev.map(f => f.id === file.id ? { ...f, status: 'processing', selected: false } : f));
+    updateJob({current: 0, total: 0, phase: 'extracting'});
+    setWorkspace(prev => prev.map(f => f.id === file.id ? { ...f, status: 'processing', selected: false, error: undefined } : f));
     
     try {
-      const onProgress: ProgressCallback = (current, total) => {
-        if (activeProcesses.current[processId]) {
-          setProgress({current, total, phase: 'extracting'});
-        }
-      };
+      const onProgress: ProgressCallback = (current, total) => updateJob({current, total, phase: 'extracting'});
 
-      const rawText = await extractTextFromPdf(file.blob, onProgress);
-      if (!activeProcesses.current[processId]) return;
+      const pages = await extractPagesFromPdf(file.blob, onProgress, signal);
+      const rawText = pages.join('\n');
 
       if (!rawText.trim()) throw new Error('Não foi possível extrair texto desta parte do documento.');
 
-      setProgress({current: 0, total: 0, phase: 'analyzing'});
-      const extracted = await extractLegalData(rawText, searchQuery);
-      if (!activeProcesses.current[processId]) return;
-
-      const grouped: GroupedProcesses = {};
-      if (extracted.processes && extracted.processes.length > 0) {
-        extracted.processes.forEach((p) => {
-          if (!grouped[p.foro]) grouped[p.foro] = [];
-          grouped[p.foro].push(p.processo);
-        });
-      }
+      updateJob({current: 0, total: 0, phase: 'analyzing'});
+      const onChunk: ProgressCallback = (current, total) => updateJob({current, total, phase: 'analyzing'});
+      const retry: RetryOptions = {
+        onRetry: (attempt, err) => updateJob({current: 0, total: 0, phase: 'analyzing', note: `Tentativa ${attempt + 1}: ${err.message}`}),
+      };
+      const extracted = await analyzePages(pages, onChunk, signal, retry);
+      if (signal.aborted) return;
+
+      const { processes, publications, warnings } = segmentGazette(attachOccurrences(enrichProcesses(extracted.processes || [], aliases), pages), pages, extracted.warnings);
+      const searchReport = buildTextSearchReport(processes, pages);
+      const grouped = groupByForo(processes);
+      const historyId = crypto.randomUUID();
       
       setWorkspace(prev => prev.map(f => f.id === file.id ? { 
         ...f, 
         status: 'completed', 
         results: grouped,
+        processes,
+        searchReport,
+        historyId,
         selected: false
       } : f));
       
-      setGroupedData(grouped);
-      
       const newHistoryItem: HistoryItem = {
-        id: crypto.randomUUID(),
-        name: `${file.name}${searchQuery ? ' (Filtro)' : ''}`,
+        id: historyId,
+        name: runName(file.name),
         timestamp: Date.now(),
-        results: grouped
+        results: grouped,
+        processes,
+        sourceId: file.id,
+        warnings,
+        searchReport,
+        publications
       };
       setHistory(prev => [newHistoryItem, ...prev]);
     } catch (err: any) {
-      if (activeProcesses.current[processId]) {
-        setWorkspace(prev => prev.map(f => f.id === file.id ? { ...f, status: 'error' } : f));
-        setError(err.message || 'Erro ao analisar arquivo do workspace.');
+      if (signal.aborted) {
+        setWorkspace(prev => prev.map(f => f.id === file.id ? { ...f, status: 'cancelled' } : f));
+      } else {
+        const message = err.message || 'Erro ao analisar arquivo do workspace.';
+        setWorkspace(prev => prev.map(f => f.id === file.id ? { ...f, status: 'error', error: message } : f));
+        recordFailure(runName(file.name), message, file.id);
       }
     } finally {
-      activeProcesses.current[processId] = false;
-      activeProcesses.current[file.id] = false;
-      if (!isSequentialRunning) {
-        setLoading(false);
-      }
+      finishProcess(processId, controller);
+      setJobProgress(prev => {
+        const next = { ...prev };
+        delete next[processId];
+        return next;
+      });
     }
   };
 
-  const analyzeBatchSequential = async () => {
-    const selectedFiles = workspace.filter(f => f.selected && f.status !== 'completed');
-    if (selectedFiles.length === 0 || isSequentialRunning) return;
+  const analyzeBatch = async (files: WorkspaceFile[]) => {
+    if (files.length === 0 || isBatchRunning) return;
     
     isBatchStopped.current = false;
-    setIsSequentialRunning(true);
+    setIsBatchRunning(true);
+    const queuedIds = new Set(files.map(f => f.id));
+    setWorkspace(prev => prev.map(f => queuedIds.has(f.id) ? { ...f, status: 'queued', error: undefined } : f));
+    // Controllers are registered at queue time so that a queued file can be cancelled before it starts.
+    const controllers = files.map(f => startProcess(f.id));
     
-    for (const file of selectedFiles) {
-      if (isBatchStopped.current) break;
-      await analyzeWorkspaceFile(file);
-    }
+    await runWithConcurrency(files, settings.concurrency, async (file, index) => {
+      const controller = controllers[index];
+      if (isBatchStopped.current || controller.signal.aborted) {
+        finishProcess(file.id, controller);
+        return;
+      }
+      await analyzeWorkspaceFile(file, controller);
+    });
     
-    setIsSequentialRunning(false);
-    setLoading(false);
-    setProgress({current: 0, total: 0, phase: 'idle'});
+    setWorkspace(prev => prev.map(f => f.status === 'queued' ? { ...f, status: 'idle' } : f));
+    setIsBatchRunning(false);
   };
 
+  const analyzeSelected = () => analyzeBatch(workspace.filter(f => f.selected && f.status !== 'completed'));
+
+  const retryFailed = () => analyzeBatch(workspace.filter(f => f.status === 'error'));
+
   const toggleFileSelection = (id: string) => {
     setWorkspace(prev => prev.map(f => {
       if (f.id === id) {
@@ -378,6 +701,8 @@ const App: React.FC = () => {
     if (progress.phase === 'extracting') {
       const remainingPages = progress.total - progress.current;
       totalSeconds = (remainingPages * 0.6) + 15;
+    } else if (progress.phase === 'analyzing' && progress.total > 1) {
+      totalSeconds = (progress.total - progress.current) * 20;
     } else if (progress.phase === 'analyzing') {
       totalSeconds = 15 * (1 - (simulatedProgress / 100));
     }
@@ -389,49 +714,154 @@ const App: React.FC = () => {
     return `Tempo estimado: ${seconds}s`;
   };
 
-  const handleSplit = async () => {
-    if (!currentFile || !pagesPerPart) return;
+  const SPLIT_MODE_OPTIONS: { id: DivisorMode, label: string }[] = [
+    { id: 'fixed', label: 'Páginas por Bloco' },
+    { id: 'ranges', label: 'Intervalos' },
+    { id: 'bookmarks', label: 'Marcadores' },
+    { id: 'size', label: 'Tamanho Máximo' },
+    { id: 'blank', label: 'Páginas em Branco' },
+    { id: 'process', label: 'Por Processo' },
+  ];
+
+  const buildSplitStrategy = (): SplitStrategy => {
+    switch (splitMode) {
+      case 'ranges': return { mode: 'ranges', ranges: splitRanges };
+      case 'bookmarks': return { mode: 'bookmarks' };
+      case 'size': return { mode: 'size', maxBytes: splitMaxMb * 1024 * 1024 };
+      case 'blank': return { mode: 'blank' };
+      default: return { mode: 'fixed', pagesPerPart };
+    }
+  };
+
+  // Runs a Divisor step under the 'direct_split' process, so the loading card can interrupt it.
+  const runSplitStep = async <T,>(step: (signal: AbortSignal, onProgress: ProgressCallback) => Promise<T>, failure: string): Promise<T | null> => {
+    const controller = startProcess('direct_split');
     setLoading(true);
     setError(null);
     try {
-      const parts = await splitPdf(currentFile, pagesPerPart);
-      const workspaceParts: WorkspaceFile[] = parts.map(part => ({
-        id: crypto.randomUUID(),
-        name: part.name,
-        blob: part.blob,
-        pageCount: part.pageCount,
-        status: 'idle',
-        selected: true
-      }));
-      setWorkspace(prev => [...prev, ...workspaceParts]);
-      setSidebarTab('workspace');
+      const onProgress: ProgressCallback = (current, total) => {
+        if (!controller.signal.aborted) setProgress({current, total, phase: 'extracting'});
+      };
+      return await step(controller.signal, onProgress);
     } catch (err: any) {
-      setError(err.message || 'Erro ao dividir PDF.');
+      if (!controller.signal.aborted) setError(err.message || failure);
+      return null;
     } finally {
       setLoading(false);
+      setProgress({current: 0, total: 0, phase: 'idle'});
+      finishProcess('direct_split', controller);
     }
   };
 
-  const downloadBlob = (blob: Blob, name: string) => {
+  const previewSplit = async () => {
+    if (!currentFile) return;
+    if (splitMode === 'process') {
+      const pages = await runSplitStep((signal, onProgress) => extractPagesFromPdf(currentFile, onProgress, signal), 'Erro ao ler o texto do PDF.');
+      if (!pages) return;
+      if (!pages.some(page => page.trim())) {
+        setError('O PDF não tem camada de texto; use o OCR antes de dividir por processo.');
+        return;
+      }
+      setBoundaryManual({});
+      setBoundaryPages(pages);
+      return;
+    }
+    const plan = await runSplitStep((signal, onProgress) => planSplit(currentFile, buildSplitStrategy(), signal, onProgress), 'Erro ao planejar a divisão.');
+    if (plan) setSplitPlan(plan);
+  };
+
+  const handleSplit = async () => {
+    if (!currentFile || !splitPlan || (boundaryPlan?.unresolved ?? 0) > 0) return;
+    const plan = splitPlan;
+    const parts = await runSplitStep((signal, onProgress) => splitPdf(currentFile, plan, signal, onProgress), 'Erro ao dividir PDF.');
+    if (!parts) return;
+
+    const workspaceParts: WorkspaceFile[] = parts.map(part => ({
+      id: crypto.randomUUID(),
+      name: part.name,
+      blob: part.blob,
+      pageCount: part.pageCount,
+      status: 'idle',
+      selected: true
+    }));
+    setWorkspace(prev => [...prev, ...workspaceParts]);
+    setSidebarTab('workspace');
+    setSplitPlan(null);
+    setBoundaryPages(null);
+    setBoundaryManual({});
+  };
+
+  const addFilesToWorkspace = async (files: File[]) => {
+    setError(null);
+    try {
+      const added: WorkspaceFile[] = [];
+      for (const file of files) {
+        added.push({
+          id: crypto.randomUUID(),
+          name: file.name.replace(/\.pdf$/i, ''),
+          blob: file,
+          pageCount: await getPageCount(file),
+          status: 'idle',
+          selected: true
+        });
+      }
+      setWorkspace(prev => [...prev, ...added]);
+      setSidebarTab('workspace');
+    } catch (err: any) {
+      setError(err.message || 'Erro ao adicionar PDFs ao workspace.');
+    }
+  };
+
+  const addMergedFile = (blob: Blob, name: string, pageCount: number) => {
+    setWorkspace(prev => [...prev, { id: crypto.randomUUID(), name, blob, pageCount, status: 'idle', selected: false }]);
+    setSidebarTab('workspace');
+  };
+
+  const downloadFile = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = name.endsWith('.pdf') ? name : `${name}.pdf`;
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
   };
 
-  const downloadResults = (results: GroupedProcesses, name: string, filterForos?: Set<string>) => {
+  const downloadBlob = (blob: Blob, name: string) => downloadFile(blob, name.endsWith('.pdf') ? name : `${name}.pdf`);
+
+  // One row per process with its source document, pages and validation status.
+  const downloadTable = (items: TableSource[], name: string, format: TableFormat, filterForos?: Set<string>) => {
+    const foros = filterForos && filterForos.size > 0 ? filterForos : undefined;
+    downloadFile(buildTable(items, format, foros), `tabela_${name.replace(/\s+/g, '_')}_${Date.now()}.${format}`);
+  };
+
+  const formatInvalidSection = (invalid: InvalidEntry[]) => {
+    if (invalid.length === 0) return '';
+    let text = `NÚMEROS COM DÍGITO VERIFICADOR INVÁLIDO (${invalid.length})\n`;
+    text += `-------------------------------------\n`;
+    invalid.forEach(({ foro, processo, validation }) => {
+      text += `  - ${processo} [${foro}]${validation.sugestao ? ` -> sugestão: ${validation.sugestao}` : ''}\n`;
+    });
+    return text + '\n';
+  };
+
+  // Detailed fields (vara, partes, advogados...) are listed under each number when the analysis has them.
+  const downloadResults = (results: GroupedProcesses, name: string, filterForos?: Set<string>, processes?: LegalProcess[]) => {
     let text = `ANÁLISE DE PROCESSOS - ${name}\n`;
     text += `Data: ${new Date().toLocaleString()}\n`;
     text += `=====================================\n\n`;
     
-    Object.entries(results).forEach(([foro, processos]) => {
+    const details = indexByNumber(processes);
+    const { valid, invalid } = splitByValidity(results);
+    Object.entries(valid).forEach(([foro, processos]) => {
       if (filterForos && !filterForos.has(foro)) return;
       text += `FORO: ${foro}\n`;
-      processos.forEach(p => text += `  - ${p}\n`);
+      processos.forEach(p => {
+        text += `  - ${p}\n`;
+        describeProcessDetails(details.get(onlyDigits(p))).forEach(({ label, value }) => text += `      ${label}: ${value}\n`);
+      });
       text += '\n';
     });
+    text += formatInvalidSection(invalid.filter(entry => !filterForos || filterForos.has(entry.foro)));
     
     const blob = new Blob([text], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
@@ -442,7 +872,44 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const downloadResultsAsPdf = (results: GroupedProcesses, name: string, filterForos?: Set<string>) => {
+  const downloadSearchReport = (report: SearchReport, name: string) => {
+    const blob = new Blob([formatSearchReport(report, name)], { type: 'text/plain' });
+    downloadFile(blob, `lista_de_busca_${name.replace(/\s+/g, '_')}.txt`);
+  };
+
+  const downloadPublications = (publications: DjePublication[], name: string, query: string) => {
+    const title = query.trim() ? `Filtro "${query.trim()}"` : 'Todas';
+    const blob = new Blob([formatPublications(publications, title, name)], { type: 'text/plain' });
+    downloadFile(blob, `publicacoes_${name.replace(/\s+/g, '_')}.txt`);
+  };
+
+  // One text file per lawyer; several lawyers are bundled in a ZIP.
+  const downloadPublicationsByLawyer = (publications: DjePublication[], name: string, query: string) => {
+    const files = buildLawyerFiles(publications, name, query);
+    if (files.length === 0) {
+      alert('Nenhuma das publicações traz advogado com OAB identificada.');
+      return;
+    }
+    if (files.length === 1) {
+      downloadFile(new Blob([files[0].data], { type: 'text/plain' }), files[0].name);
+      return;
+    }
+    downloadFile(createZip(files), `publicacoes_por_advogado_${name.replace(/\s+/g, '_')}.zip`);
+  };
+
+  // Deadlines and hearings as an iCalendar file; each event links back to its page snippet in this app.
+  const downloadCalendar = (sources: CalendarSource[], name: string, filterForos?: Set<string>) => {
+    const linkFor = (historyId: string, processo: string, pagina: number) =>
+      `${window.location.origin}${window.location.pathname}${snippetLinkHash(historyId, processo, pagina)}`;
+    const { events, ics } = buildCalendar(sources, `Prazos - ${name}`, filterForos && filterForos.size > 0 ? filterForos : undefined, linkFor);
+    if (events.length === 0) {
+      alert('Nenhum prazo calculado ou audiência encontrada nos processos escolhidos.');
+      return;
+    }
+    downloadFile(new Blob([ics], { type: 'text/calendar' }), `agenda_${name.replace(/\s+/g, '_')}.ics`);
+  };
+
+  const downloadResultsAsPdf = (results: GroupedProcesses, name: string, filterForos?: Set<string>, processes?: LegalProcess[]) => {
     const doc = new jsPDF();
     let y = 20;
     doc.setFontSize(16);
@@ -452,7 +919,9 @@ const App: React.FC = () => {
     doc.text(`Gerado em: ${new Date().toLocaleString()}`, 10, y);
     y += 15;
 
-    Object.entries(results).forEach(([foro, processos]) => {
+    const details = indexByNumber(processes);
+    const { valid, invalid } = splitByValidity(results);
+    Object.entries(valid).forEach(([foro, processos]) => {
       if (filterForos && !filterForos.has(foro)) return;
       
       if (y > 270) { doc.addPage(); y = 20; }
@@ -466,10 +935,37 @@ const App: React.FC = () => {
         if (y > 280) { doc.addPage(); y = 20; }
         doc.text(`- ${p}`, 15, y);
         y += 5;
+        doc.setFontSize(8);
+        describeProcessDetails(details.get(onlyDigits(p))).forEach(({ label, value }) => {
+          (doc.splitTextToSize(`${label}: ${value}`, 175) as string[]).forEach(line => {
+            if (y > 280) { doc.addPage(); y = 20; }
+            doc.text(line, 20, y);
+            y += 4;
+          });
+        });
+        doc.setFontSize(10);
       });
       y += 5;
     });
 
+    const invalidSelected = invalid.filter(entry => !filterForos || filterForos.has(entry.foro));
+    if (invalidSelected.length > 0) {
+      if (y > 270) { doc.addPage(); y = 20; }
+      doc.setFontSize(12);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(185, 28, 28);
+      doc.text(`DÍGITO VERIFICADOR INVÁLIDO (${invalidSelected.length})`, 10, y);
+      y += 7;
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(10);
+      invalidSelected.forEach(({ foro, processo, validation }) => {
+        if (y > 280) { doc.addPage(); y = 20; }
+        doc.text(`- ${processo} [${foro}]${validation.sugestao ? ` -> sugestão: ${validation.sugestao}` : ''}`, 15, y);
+        y += 5;
+      });
+      doc.setTextColor(0, 0, 0);
+    }
+
     doc.save(`analise_${name.replace(/\s+/g, '_')}${filterForos ? '_selecao' : ''}.pdf`);
   };
 
@@ -483,10 +979,12 @@ const App: React.FC = () => {
       text += `DOCUMENTO: ${item.name}\n`;
       text += `DATA: ${new Date(item.timestamp).toLocaleString()}\n`;
       text += `-------------------------------------\n`;
-      Object.entries(item.results).forEach(([foro, processos]) => {
+      const { valid, invalid } = splitByValidity(item.results);
+      Object.entries(valid).forEach(([foro, processos]) => {
         text += `FORO: ${foro} (${processos.length} processos)\n`;
         processos.forEach(p => text += `  - ${p}\n`);
       });
+      text += formatInvalidSection(invalid);
       text += "\n\n";
     });
 
@@ -499,6 +997,44 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  // Unlike the TXT report, the backup can be imported back (JSON, or ZIP when the original PDFs go along).
+  const exportBackup = async () => {
+    setBackupBusy(true);
+    try {
+      const blob = await createBackup({ history, aliases, settings, documents, workspace }, backupIncludeDocuments);
+      downloadFile(blob, `legalfilter_backup_${new Date().toISOString().slice(0, 10)}.${backupIncludeDocuments ? 'zip' : 'json'}`);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao gerar o backup.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const handleBackupFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setBackupBusy(true);
+    try {
+      const bundle = await readBackup(file);
+      setImportPreview(previewImport(bundle, { history, aliases, settings, documents, workspace }));
+    } catch (err: any) {
+      alert(err.message || 'Não foi possível ler o backup.');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const confirmImport = (applySettings: boolean) => {
+    if (!importPreview) return;
+    const merged = applyImport(importPreview, { history, aliases, settings, documents }, applySettings);
+    setHistory(merged.history);
+    setAliases(merged.aliases);
+    setDocuments(merged.documents);
+    setSettings(merged.settings);
+    setImportPreview(null);
+  };
+
   const downloadConsolidatedSelection = (format: 'pdf' | 'txt') => {
     if (consolidatedSelection.size === 0) return;
     const merged: GroupedProcesses = {};
@@ -509,12 +1045,17 @@ const App: React.FC = () => {
     });
 
     if (format === 'txt') {
-      downloadResults(merged, "Consolidado_Multi_Documentos", consolidatedSelection);
+      downloadResults(merged, "Consolidado_Multi_Documentos", consolidatedSelection, history.flatMap(item => item.processes || []));
     } else {
-      downloadResultsAsPdf(merged, "Consolidado_Multi_Documentos", consolidatedSelection);
+      downloadResultsAsPdf(merged, "Consolidado_Multi_Documentos", consolidatedSelection, history.flatMap(item => item.processes || []));
     }
   };
 
+  const downloadConsolidatedTable = (format: TableFormat) => {
+    if (consolidatedSelection.size === 0) return;
+    downloadTable(history, "Consolidado_Multi_Documentos", format, consolidatedSelection);
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     alert('Copiado para a área de transferência!');
@@ -523,20 +1064,148 @@ const App: React.FC = () => {
   const formatAllForExport = (data: GroupedProcesses | null) => {
     if (!data) return '';
     let text = '';
-    Object.entries(data).forEach(([foro, processos]) => {
+    const { valid, invalid } = splitByValidity(data);
+    Object.entries(valid).forEach(([foro, processos]) => {
       text += `${foro}\n${processos.join('\n')}\n\n`;
     });
-    return text;
+    return text + formatInvalidSection(invalid);
   };
 
-  const openDetailView = (data: GroupedProcesses, name: string) => {
-    setGroupedData(data);
+  const openDetailView = ({ id, results, name, processes, sourceId, timestamp, searchReport, publications, deadlines }: DetailSource) => {
+    setDetailHistoryId(id);
+    setGroupedData(results);
     setFileName(name);
+    setDetailSourceId(sourceId);
+    setDetailTimestamp(timestamp ?? Date.now());
+    setDetailSearchReport(searchReport);
+    setDetailPublications(publications);
+    setDetailDeadlines(deadlines ?? history.find(item => item.id === id)?.deadlines ?? []);
+    setPagePreview(null);
+    setDetailProcesses(Object.fromEntries((processes || []).map(p => [onlyDigits(p.processo), p])));
     setSelectedForos(new Set()); 
-    setDetailTab('summary');
+    setSelectedProcesses(new Set());
+    setExpandedProcesses(new Set());
+    setDetailTab(searchReport ? 'search' : publications?.length ? 'publications' : 'summary');
     setView('detail');
   };
 
+  // The workspace file points at the history entry of its last run; ids, publications and deadlines all come from that entry.
+  const openWorkspaceResults = (file: WorkspaceFile) => {
+    const run = history.find(item => item.id === file.historyId);
+    openDetailView({ id: run?.id, name: file.name, results: file.results!, processes: file.processes, sourceId: file.id, searchReport: file.searchReport, publications: run?.publications });
+  };
+
+  // Confirmed near-matches become regular results of the analysis, both in history and in the workspace file.
+  const resolveNearMatch = (match: NearMatch, accept: boolean) => {
+    if (!detailSearchReport || !groupedData) return;
+    const added = accept
+      ? enrichProcesses([{ foro: FORO_NAO_IDENTIFICADO, processo: match.requested, ocorrencias: match.pagina ? [{ pagina: match.pagina, trecho: match.trecho || match.original }] : undefined }], aliases)
+      : [];
+    const report = accept ? confirmNearMatch(detailSearchReport, match, added[0]) : rejectNearMatch(detailSearchReport, match.id);
+    const update = <T extends { results: GroupedProcesses; processes?: LegalProcess[]; searchReport?: SearchReport }>(item: T): T =>
+      ({ ...appendProcesses(item, added), searchReport: report });
+
+    const known = Object.values(detailProcesses) as LegalProcess[];
+    const detail = update({ results: groupedData, processes: known.length > 0 ? known : undefined });
+    setGroupedData(detail.results);
+    setDetailProcesses(Object.fromEntries(detail.processes!.map(p => [onlyDigits(p.processo), p])));
+    setDetailSearchReport(report);
+    if (detailHistoryId) setHistory(prev => prev.map(item => item.id === detailHistoryId ? update(item) : item));
+    if (detailSourceId) setWorkspace(prev => prev.map(f => f.id === detailSourceId && f.searchReport && f.results ? update({ ...f, results: f.results }) : f));
+  };
+
+  // Deadlines live on the history entry; analyses opened from elsewhere only keep them while the view is open.
+  const updateDeadlines = (deadlines: ProcessDeadline[]) => {
+    setDetailDeadlines(deadlines);
+    if (detailHistoryId) setHistory(prev => prev.map(item => item.id === detailHistoryId ? { ...item, deadlines } : item));
+  };
+
+  const detailProcessList = (): LegalProcess[] => {
+    const known = Object.values(detailProcesses) as LegalProcess[];
+    return known.length > 0 ? known : groupedData ? processesFromResults(groupedData) : [];
+  };
+
+  const detailCalendarSource = (): CalendarSource | null =>
+    groupedData ? { id: detailHistoryId, name: fileName || "Análise", results: groupedData, processes: detailProcessList(), deadlines: detailDeadlines, publications: detailPublications } : null;
+
+  const toggleProcessDetails = (processo: string) => {
+    const next = new Set(expandedProcesses);
+    if (next.has(processo)) next.delete(processo);
+    else next.add(processo);
+    setExpandedProcesses(next);
+  };
+
+  const toggleProcessSelection = (processo: string) => {
+    const next = new Set(selectedProcesses);
+    if (next.has(processo)) next.delete(processo);
+    else next.add(processo);
+    setSelectedProcesses(next);
+  };
+
+  const detailTableSource = (): TableSource | null =>
+    groupedData ? resultsAsSource(fileName || "Análise", groupedData, Object.values(detailProcesses), detailTimestamp) : null;
+
+  const detailSourceBlob = detailSourceId ? (documents[detailSourceId] || workspace.find(f => f.id === detailSourceId)?.blob) : undefined;
+
+  // Images analyzed by OCR have no pages to copy into an extract.
+  const filteredPdfBlocker = !detailSourceBlob
+    ? 'Documento original indisponível'
+    : detailSourceBlob.type.startsWith('image/') ? 'O original é uma imagem; não há páginas de PDF para extrair' : null;
+
+  // Selected foros contribute all of their processes; individually checked processes are added on top.
+  const exportFilteredPdf = async (results: GroupedProcesses, name: string) => {
+    if (!detailSourceBlob) {
+      alert('O documento original não está mais disponível; não é possível gerar o PDF filtrado.');
+      return;
+    }
+    const selection: FilteredSelection[] = Object.entries(results).flatMap(([foro, processos]) =>
+      processos.filter(p => selectedForos.has(foro) || selectedProcesses.has(p)).map(processo => ({
+        foro,
+        processo,
+        paginas: detailProcesses[onlyDigits(processo)]?.ocorrencias?.map(oc => oc.pagina),
+      }))
+    );
+    if (selection.length === 0) return;
+
+    setExportingFilteredPdf(true);
+    try {
+      const filtered = await buildFilteredPdf(detailSourceBlob, name, selection);
+      downloadBlob(filtered.blob, `extrato_${name.replace(/\s+/g, '_')}_selecao`);
+      if (filtered.missing.length > 0) {
+        alert(`Processos sem páginas localizadas no texto do original:\n${filtered.missing.join('\n')}`);
+      }
+    } catch (err: any) {
+      alert(err.message || 'Erro ao gerar o PDF filtrado.');
+    } finally {
+      setExportingFilteredPdf(false);
+    }
+  };
+
+  // Coloring by search only makes sense when the viewed analysis was run against a list.
+  const detailHighlightMode: HighlightColorMode = detailSearchReport ? highlightColorMode : 'foro';
+
+  // Returns the original PDF with every found number marked as a highlight annotation; selected foros narrow it down.
+  const exportHighlightedPdf = async (results: GroupedProcesses, name: string) => {
+    if (!detailSourceBlob) {
+      alert('O documento original não está mais disponível; não é possível gerar o PDF com destaques.');
+      return;
+    }
+    setExportingHighlights(true);
+    try {
+      const targets = buildHighlightTargets(results, detailHighlightMode, detailSearchReport?.requested, selectedForos);
+      const highlighted = await highlightPdf(detailSourceBlob, targets);
+      if (highlighted.count === 0) {
+        alert('Nenhum dos números foi localizado na camada de texto do PDF original.');
+        return;
+      }
+      downloadBlob(highlighted.blob, `destaques_${name.replace(/\s+/g, '_')}`);
+    } catch (err: any) {
+      alert(err.message || 'Erro ao gerar o PDF com destaques.');
+    } finally {
+      setExportingHighlights(false);
+    }
+  };
+
   const toggleForoSelection = (foro: string) => {
     const newSelection = new Set(selectedForos);
     if (newSelection.has(foro)) {
@@ -547,6 +1216,48 @@ const App: React.FC = () => {
     setSelectedForos(newSelection);
   };
 
+  // Every alias change re-groups stored results so the consolidated view never shows stale duplicates.
+  const updateAliases = (next: ForoAliases) => {
+    setAliases(next);
+    setHistory(prev => regroupHistory(prev, next));
+    setWorkspace(prev => prev.map(f => f.results ? regroupResults({ ...f, results: f.results }, next) : f));
+    setConsolidatedSelection(new Set());
+  };
+
+  // The open analysis is regrouped too, whatever changed the aliases (alias editor, merge or backup import).
+  useEffect(() => {
+    if (!groupedData) return;
+    const known = Object.values(detailProcesses) as LegalProcess[];
+    const detail = regroupResults({ results: groupedData, processes: known.length > 0 ? known : undefined, searchReport: detailSearchReport }, aliases);
+    setGroupedData(detail.results);
+    setDetailProcesses(Object.fromEntries(detail.processes!.map(p => [onlyDigits(p.processo), p])));
+    setDetailSearchReport(detail.searchReport);
+    setSelectedForos(new Set());
+  }, [aliases]);
+
+  const handleAddAlias = () => {
+    if (!aliasVariant.trim() || !aliasCanonical.trim()) return;
+    updateAliases(addAlias(aliases, aliasVariant, aliasCanonical));
+    setAliasVariant('');
+    setAliasCanonical('');
+  };
+
+  const mergeSelectedForos = () => {
+    if (consolidatedSelection.size < 2) return;
+    const [first] = consolidatedSelection;
+    const typed = prompt('Nome canônico para os foros selecionados:', first);
+    if (!typed || !typed.trim()) return;
+    // Follow earlier merges: if the typed name is already an alias, the new aliases point at its canonical name.
+    const canonical = canonicalizeForo(typed, aliases);
+    const merged = new Set(Array.from(consolidatedSelection).map(foroKey));
+    // Aliases that pointed at one of the merged foros move to the new canonical name as well.
+    let next: ForoAliases = Object.fromEntries(Object.entries(aliases).map(([key, target]: [string, string]) => [key, merged.has(foroKey(target)) ? canonical : target]));
+    consolidatedSelection.forEach(foro => {
+      next = addAlias(next, foro, canonical);
+    });
+    updateAliases(addAlias(next, canonical, canonical));
+  };
+
   const toggleConsolidatedSelection = (foro: string) => {
     const newSelection = new Set(consolidatedSelection);
     if (newSelection.has(foro)) {
@@ -557,6 +1268,24 @@ const App: React.FC = () => {
     setConsolidatedSelection(newSelection);
   };
 
+  const WORKSPACE_STATUS_LABELS: Record<WorkspaceFile['status'], string> = {
+    idle: 'Aguardando',
+    queued: 'Na fila',
+    processing: 'Analisando...',
+    completed: 'Finalizado',
+    error: 'Erro',
+    cancelled: 'Cancelado',
+  };
+
+  const WORKSPACE_STATUS_COLORS: Record<WorkspaceFile['status'], string> = {
+    idle: 'bg-slate-100 text-slate-400',
+    queued: 'bg-amber-50 text-amber-600',
+    processing: 'bg-indigo-50 text-indigo-600',
+    completed: 'bg-green-50 text-green-600',
+    error: 'bg-red-50 text-red-600',
+    cancelled: 'bg-slate-200 text-slate-500',
+  };
+
   const SidebarCard = ({ children, title, subtitle, status, statusColor, actions, selected, onToggleSelect, isCompleted }: any) => (
     <div className={`p-4 rounded-2xl border transition-all group duration-300 ${selected ? 'border-indigo-300 bg-white shadow-lg ring-1 ring-indigo-50' : 'border-slate-100 bg-slate-50'} ${isCompleted ? 'opacity-70 grayscale-[0.5]' : ''}`}>
       <div className="flex justify-between items-start mb-1">
@@ -590,6 +1319,7 @@ const App: React.FC = () => {
     const isExpanded = expandedResults[item.id];
     const data = item.results;
     const totalCount = Object.values(data).reduce((acc, curr) => acc + curr.length, 0);
+    const invalidCount = countInvalid(data);
 
     return (
       <div className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden mb-4 transition-all hover:shadow-xl hover:scale-[1.01] duration-300">
@@ -605,19 +1335,29 @@ const App: React.FC = () => {
               <h4 className="font-bold text-slate-800 truncate text-sm">{item.name}</h4>
               <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">
                 {new Date(item.timestamp).toLocaleDateString('pt-BR')} • {totalCount} Processos
+                {item.error && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded-full bg-red-100 text-red-700" title={item.error}>
+                    Falha na análise
+                  </span>
+                )}
+                {invalidCount > 0 && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700" title="Números cujo dígito verificador CNJ não confere">
+                    ⚠ {invalidCount} inválidos
+                  </span>
+                )}
               </p>
             </div>
           </div>
           <div className="flex items-center gap-3 ml-4">
             <button 
-              onClick={(e) => { e.stopPropagation(); downloadResults(data, item.name); }}
+              onClick={(e) => { e.stopPropagation(); downloadResults(data, item.name, undefined, item.processes); }}
               className="p-2 text-slate-400 hover:text-indigo-600 transition-colors"
               title="Baixar em TXT"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
             </button>
             <button 
-              onClick={(e) => { e.stopPropagation(); downloadResultsAsPdf(data, item.name); }}
+              onClick={(e) => { e.stopPropagation(); downloadResultsAsPdf(data, item.name, undefined, item.processes); }}
               className="p-2 text-slate-400 hover:text-red-600 transition-colors"
               title="Baixar em PDF"
             >
@@ -629,6 +1369,17 @@ const App: React.FC = () => {
         
         {isExpanded && (
           <div className="p-8 border-t border-slate-100 bg-white animate-in fade-in slide-in-from-top-4 duration-500">
+             {item.error && (
+                <div className="mb-6 p-5 bg-red-50 border border-red-100 rounded-2xl text-red-600 text-xs font-bold">
+                   A análise falhou e o resultado abaixo não significa ausência de processos: {item.error}
+                </div>
+             )}
+             {item.warnings && item.warnings.length > 0 && (
+                <div className="mb-6 p-5 bg-amber-50 border border-amber-100 rounded-2xl text-amber-700 text-[11px] font-medium space-y-1">
+                   <p className="font-black uppercase tracking-widest text-[10px]">Itens corrigidos ou descartados da resposta da IA</p>
+                   {item.warnings.map((w, idx) => <p key={idx}>{w}</p>)}
+                </div>
+             )}
              <div className="text-center py-6 bg-slate-50 rounded-2xl border border-slate-100 mb-6">
                 <p className="text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Resumo do Documento</p>
                 <div className="flex justify-center gap-6">
@@ -645,7 +1396,7 @@ const App: React.FC = () => {
             
             <div className="flex justify-end">
                <button 
-                  onClick={() => openDetailView(data, item.name)}
+                  onClick={() => openDetailView({ ...item, results: data })}
                   className="text-xs font-black text-indigo-600 hover:text-indigo-700 uppercase tracking-widest flex items-center gap-2"
                   title="Abrir em Tela Cheia para Detalhes e Exportação Seletiva"
                >
@@ -711,14 +1462,86 @@ const App: React.FC = () => {
                >
                  Visualização Completa
                </button>
+               {detailSearchReport && (
+                 <button 
+                   onClick={() => setDetailTab('search')}
+                   className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${detailTab === 'search' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                 >
+                   Lista de Busca
+                 </button>
+               )}
+               <button 
+                 onClick={() => setDetailTab('deadlines')}
+                 className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${detailTab === 'deadlines' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+               >
+                 Prazos{detailDeadlines.length > 0 && ` (${detailDeadlines.length})`}
+               </button>
+               {detailPublications && (
+                 <button 
+                   onClick={() => setDetailTab('publications')}
+                   className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${detailTab === 'publications' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                 >
+                   Publicações DJE
+                 </button>
+               )}
              </div>
             <button onClick={() => copyToClipboard(formatAllForExport(groupedData))} className="px-5 py-2.5 text-xs font-black text-slate-600 hover:bg-slate-100 rounded-xl border border-slate-200 uppercase tracking-widest transition-all">Copiar Tudo</button>
-            <button onClick={() => groupedData && downloadResults(groupedData, fileName || "Análise")} className="px-5 py-2.5 bg-white text-slate-700 text-xs font-black rounded-xl border border-slate-200 hover:bg-slate-50 uppercase tracking-widest transition-all">Exportar Tudo (TXT)</button>
+            <button onClick={() => groupedData && downloadResults(groupedData, fileName || "Análise", undefined, Object.values(detailProcesses) as LegalProcess[])} className="px-5 py-2.5 bg-white text-slate-700 text-xs font-black rounded-xl border border-slate-200 hover:bg-slate-50 uppercase tracking-widest transition-all">Exportar Tudo (TXT)</button>
+            <div className="flex items-center border border-slate-200 rounded-xl overflow-hidden" title="Planilha com uma linha por processo">
+              <button onClick={() => { const source = detailTableSource(); if (source) downloadTable([source], source.name, 'csv'); }} className="px-4 py-2.5 bg-white text-emerald-700 text-xs font-black hover:bg-emerald-50 uppercase tracking-widest transition-all border-r border-slate-200">CSV</button>
+              <button onClick={() => { const source = detailTableSource(); if (source) downloadTable([source], source.name, 'xlsx'); }} className="px-4 py-2.5 bg-white text-emerald-700 text-xs font-black hover:bg-emerald-50 uppercase tracking-widest transition-all">XLSX</button>
+            </div>
+            <button onClick={() => { const source = detailCalendarSource(); if (source) downloadCalendar([source], source.name); }} className="px-5 py-2.5 bg-white text-red-600 text-xs font-black rounded-xl border border-slate-200 hover:bg-red-50 uppercase tracking-widest transition-all" title="Prazos calculados e audiências em arquivo .ics">Agenda (.ics)</button>
+            <div className="flex items-center border border-slate-200 rounded-xl overflow-hidden">
+              <select
+                value={detailHighlightMode}
+                onChange={(e) => setHighlightColorMode(e.target.value as HighlightColorMode)}
+                className="px-2 py-2.5 text-[10px] font-black text-slate-500 uppercase tracking-widest bg-slate-50 border-r border-slate-200"
+                title="Cores dos destaques"
+              >
+                <option value="foro">Cor por foro</option>
+                <option value="search" disabled={!detailSearchReport}>Cor por busca</option>
+              </select>
+              <button
+                onClick={() => groupedData && exportHighlightedPdf(groupedData, fileName || "Análise")}
+                disabled={exportingHighlights || !detailSourceBlob}
+                className="px-5 py-2.5 bg-amber-50 text-amber-700 text-xs font-black hover:bg-amber-100 uppercase tracking-widest transition-all disabled:opacity-50"
+                title={detailSourceBlob ? (selectedForos.size > 0 ? 'Destacar apenas os foros selecionados' : 'Destacar todos os números encontrados') : 'Documento original indisponível'}
+              >
+                {exportingHighlights ? 'Gerando...' : 'PDF com Destaques'}
+              </button>
+            </div>
           </div>
         </header>
 
         <main className="flex-1 p-8 lg:p-12 max-w-6xl mx-auto w-full">
-            {groupedData && Object.keys(groupedData).length > 0 ? (
+            {detailTab === 'search' && detailSearchReport ? (
+              <SearchReportPanel
+                report={detailSearchReport}
+                onExport={() => downloadSearchReport(detailSearchReport, fileName || "Análise")}
+                onOpenPage={(processo, oc) => setPagePreview({ processo, pagina: oc.pagina, trecho: oc.trecho })}
+                onConfirmNearMatch={(match) => resolveNearMatch(match, true)}
+                onRejectNearMatch={(match) => resolveNearMatch(match, false)}
+              />
+            ) : detailTab === 'publications' && detailPublications ? (
+              <PublicationsPanel
+                publications={detailPublications}
+                onExport={(publications, query) => downloadPublications(publications, fileName || "Análise", query)}
+                onExportByLawyer={(query) => downloadPublicationsByLawyer(detailPublications, fileName || "Análise", query)}
+                onOpenPage={(publication, pagina) => setPagePreview({ processo: publication.processo, pagina, trecho: publication.texto.slice(0, 200) })}
+              />
+            ) : detailTab === 'deadlines' && groupedData && Object.keys(groupedData).length > 0 ? (
+              <DeadlinePanel
+                processes={detailProcessList()}
+                publications={detailPublications}
+                deadlines={detailDeadlines}
+                calendar={holidays}
+                canPersist={!!detailHistoryId}
+                onSave={(deadlines) => updateDeadlines(upsertDeadlines(detailDeadlines, deadlines))}
+                onRemove={(processo) => updateDeadlines(removeDeadline(detailDeadlines, processo))}
+                onCalendarChange={setHolidays}
+              />
+            ) : groupedData && Object.keys(groupedData).length > 0 ? (
                detailTab === 'summary' ? (
                  <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
                     <div className="bg-white p-8 rounded-4xl border border-slate-200 shadow-sm">
@@ -760,40 +1583,77 @@ const App: React.FC = () => {
                                       {processos.length}
                                    </span>
                                 </div>
-                                <span className={`text-sm font-black uppercase tracking-tight group-hover:text-indigo-900 transition-colors ${selectedForos.has(foro) ? 'text-indigo-900' : 'text-slate-700'}`}>
+                                <span className={`text-sm font-black uppercase tracking-tight group-hover:text-indigo-900 transition-colors flex items-center gap-2 ${selectedForos.has(foro) ? 'text-indigo-900' : 'text-slate-700'}`}>
+                                   {detailHighlightMode === 'foro' && detailForoColors[foro] && (
+                                     <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: toCssColor(detailForoColors[foro]) }} title="Cor do destaque no PDF" />
+                                   )}
                                    {foro}
                                 </span>
+                                {invalidByForo[foro] > 0 && (
+                                   <span className="text-[9px] font-black uppercase tracking-widest text-amber-600">⚠ {invalidByForo[foro]} com DV inválido</span>
+                                )}
                              </label>
                           ))}
                        </div>
 
-                       {selectedForos.size > 0 && (
+                       {(selectedForos.size > 0 || selectedProcesses.size > 0) && (
                           <div className="mt-12 pt-8 border-t border-slate-100 flex flex-col md:flex-row items-center justify-between gap-6">
                              <div className="text-center md:text-left">
-                                <span className="text-xs font-black text-indigo-600 uppercase tracking-widest block">{selectedForos.size} FOROS SELECIONADOS</span>
+                                <span className="text-xs font-black text-indigo-600 uppercase tracking-widest block">{selectedForos.size} FOROS SELECIONADOS{selectedProcesses.size > 0 ? ` + ${selectedProcesses.size} PROCESSOS` : ''}</span>
                                 <span className="text-[10px] text-slate-400 font-medium">Os arquivos conterão apenas os processos dos tribunais marcados acima.</span>
                              </div>
                              <div className="flex gap-4">
                                 <button 
-                                  onClick={() => downloadResults(groupedData, fileName || "Análise", selectedForos)}
+                                  onClick={() => downloadResults(groupedData, fileName || "Análise", selectedForos, Object.values(detailProcesses) as LegalProcess[])}
                                   className="px-8 py-3 bg-white text-slate-700 text-xs font-black rounded-2xl border border-slate-200 hover:bg-slate-50 uppercase tracking-widest transition-all shadow-sm flex items-center gap-2"
                                 >
                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
                                    Exportar TXT
                                 </button>
                                 <button 
-                                  onClick={() => downloadResultsAsPdf(groupedData, fileName || "Análise", selectedForos)}
+                                  onClick={() => downloadResultsAsPdf(groupedData, fileName || "Análise", selectedForos, Object.values(detailProcesses) as LegalProcess[])}
                                   className="px-8 py-3 bg-indigo-600 text-white text-xs font-black rounded-2xl hover:bg-indigo-700 shadow-xl shadow-indigo-100 uppercase tracking-widest transition-all flex items-center gap-2"
                                 >
                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"></path></svg>
                                    Gerar Relatório PDF
                                 </button>
+                                <div className="flex items-center border border-slate-200 rounded-2xl overflow-hidden shadow-sm" title="Planilha com os processos dos foros marcados">
+                                  <button onClick={() => { const source = detailTableSource(); if (source) downloadTable([source], source.name, 'csv', selectedForos); }} className="px-5 py-3 bg-white text-emerald-700 text-xs font-black hover:bg-emerald-50 uppercase tracking-widest transition-all border-r border-slate-200">CSV</button>
+                                  <button onClick={() => { const source = detailTableSource(); if (source) downloadTable([source], source.name, 'xlsx', selectedForos); }} className="px-5 py-3 bg-white text-emerald-700 text-xs font-black hover:bg-emerald-50 uppercase tracking-widest transition-all">XLSX</button>
+                                </div>
+                                <button onClick={() => { const source = detailCalendarSource(); if (source) downloadCalendar([source], source.name, selectedForos); }} className="px-5 py-3 bg-white text-red-600 text-xs font-black rounded-2xl border border-slate-200 hover:bg-red-50 uppercase tracking-widest transition-all shadow-sm" title="Prazos e audiências dos foros marcados">Agenda (.ics)</button>
+                                <button 
+                                  onClick={() => exportFilteredPdf(groupedData, fileName || "Análise")}
+                                  disabled={exportingFilteredPdf || !!filteredPdfBlocker}
+                                  className="px-8 py-3 bg-slate-900 text-white text-xs font-black rounded-2xl hover:bg-black shadow-xl shadow-slate-200 uppercase tracking-widest transition-all flex items-center gap-2 disabled:bg-slate-300 disabled:shadow-none"
+                                  title={filteredPdfBlocker || 'PDF com capa e apenas as páginas do original que citam a seleção'}
+                                >
+                                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"></path></svg>
+                                   {exportingFilteredPdf ? 'Gerando...' : 'PDF Filtrado'}
+                                </button>
                              </div>
                           </div>
                        )}
                     </div>
                  </div>
                ) : (
+                 <>
+                 {selectedProcesses.size > 0 && (
+                   <div className="mb-6 bg-white px-6 py-4 rounded-3xl border border-indigo-100 shadow-sm flex items-center justify-between gap-4">
+                     <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">{selectedProcesses.size} processos selecionados</span>
+                     <div className="flex gap-3">
+                       <button onClick={() => setSelectedProcesses(new Set())} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:underline">Limpar</button>
+                       <button
+                         onClick={() => exportFilteredPdf(groupedData, fileName || "Análise")}
+                         disabled={exportingFilteredPdf || !!filteredPdfBlocker}
+                         className="px-5 py-2 bg-slate-900 text-white text-[10px] font-black rounded-xl hover:bg-black uppercase tracking-widest transition-all disabled:bg-slate-300"
+                         title={filteredPdfBlocker || undefined}
+                       >
+                         {exportingFilteredPdf ? 'Gerando...' : 'PDF Filtrado'}
+                       </button>
+                     </div>
+                   </div>
+                 )}
                  <div className="grid gap-8 sm:grid-cols-1 md:grid-cols-2 animate-in fade-in slide-in-from-bottom-4 duration-500">
                     {Object.entries(groupedData).sort((a,b) => a[0].localeCompare(b[0], 'pt-BR')).map(([foro, processos]) => (
                       <div key={foro} className="bg-white rounded-4xl shadow-sm border border-slate-200 overflow-hidden flex flex-col hover:shadow-2xl transition-all duration-300">
@@ -803,19 +1663,81 @@ const App: React.FC = () => {
                         </div>
                         <div className="p-8 flex-1">
                           <ul className="space-y-3">
-                            {processos.map((p, idx) => (
-                              <li key={idx} className="flex items-center justify-between group p-4 bg-slate-50/40 hover:bg-indigo-50/50 rounded-2xl transition-all border border-transparent hover:border-indigo-100">
-                                <code className="text-indigo-600 font-mono text-sm font-bold tracking-tight">{p}</code>
+                            {processos.map((p, idx) => {
+                              const validation = validateCnj(p);
+                              const info = detailProcesses[onlyDigits(p)];
+                              return (
+                              <li key={idx} className={`flex items-center justify-between group p-4 rounded-2xl transition-all border ${validation.valido ? 'bg-slate-50/40 hover:bg-indigo-50/50 border-transparent hover:border-indigo-100' : 'bg-amber-50/60 border-amber-100'}`}>
+                                <div className="flex flex-col gap-1 min-w-0">
+                                  <label className="flex items-center gap-2 cursor-pointer">
+                                    <input type="checkbox" checked={selectedProcesses.has(p)} onChange={() => toggleProcessSelection(p)} className="w-3.5 h-3.5 text-indigo-600 border-slate-300 rounded" title="Incluir no PDF filtrado" />
+                                    <code className={`font-mono text-sm font-bold tracking-tight ${validation.valido ? 'text-indigo-600' : 'text-amber-700'}`}>{p}</code>
+                                  </label>
+                                  {!validation.valido && (
+                                    <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest" title={validation.motivo}>
+                                      ⚠ {validation.motivo}
+                                      {validation.sugestao && (
+                                        <button onClick={() => copyToClipboard(validation.sugestao!)} className="ml-2 normal-case tracking-normal font-mono text-indigo-600 hover:underline" title="Copiar Sugestão">
+                                          Sugestão: {validation.sugestao}
+                                        </button>
+                                      )}
+                                    </span>
+                                  )}
+                                  {info?.tribunal && (
+                                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                                      {info.tribunal} • {info.segmento}{info.foroCodigo ? ` • Origem: ${info.foroCodigo}` : ''}
+                                    </span>
+                                  )}
+                                  {info?.ocorrencias && info.ocorrencias.length > 0 && (
+                                    <div className="flex flex-wrap gap-1.5 mt-1">
+                                      {info.ocorrencias.map(oc => (
+                                        <button
+                                          key={oc.pagina}
+                                          onClick={() => setPagePreview({ processo: p, pagina: oc.pagina, trecho: oc.trecho })}
+                                          className="px-2 py-0.5 bg-white border border-slate-200 rounded-full text-[9px] font-black text-slate-500 hover:text-indigo-600 hover:border-indigo-200 uppercase tracking-widest transition-all"
+                                          title={oc.trecho}
+                                        >
+                                          Pág. {oc.pagina}
+                                        </button>
+                                      ))}
+                                    </div>
+                                  )}
+                                  {info?.ocorrencias?.[0] && (
+                                    <span className="text-[10px] text-slate-400 leading-snug line-clamp-2">{info.ocorrencias[0].trecho}</span>
+                                  )}
+                                  {info?.foroDivergente && (
+                                    <span className="text-[9px] font-black text-orange-600 uppercase tracking-widest" title="O foro informado pela IA não corresponde ao código de origem do número CNJ">
+                                      ⚠ Foro divergente: IA indicou "{info.foro}", código indica "{info.foroCodigo}"
+                                    </span>
+                                  )}
+                                  {describeProcessDetails(info).length > 0 && (
+                                    <button onClick={() => toggleProcessDetails(p)} className="self-start mt-1 text-[9px] font-black text-indigo-600 uppercase tracking-widest hover:underline">
+                                      {expandedProcesses.has(p) ? '▾ Ocultar detalhes' : '▸ Partes, vara e advogados'}
+                                    </button>
+                                  )}
+                                  {expandedProcesses.has(p) && (
+                                    <dl className="mt-1 grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 p-3 bg-white rounded-xl border border-slate-100">
+                                      {describeProcessDetails(info).map(({ label, value }) => (
+                                        <React.Fragment key={label}>
+                                          <dt className="text-[9px] font-black text-slate-400 uppercase tracking-widest pt-0.5">{label}</dt>
+                                          <dd className="text-xs text-slate-700">{value}</dd>
+                                        </React.Fragment>
+                                      ))}
+                                    </dl>
+                                  )}
+                                </div>
                                 <button onClick={() => copyToClipboard(p)} className="p-2 text-slate-300 hover:text-indigo-600 transition-colors" title="Copiar Processo">
                                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"></path></svg>
                                 </button>
                               </li>
-                            ))}
+                              );
+                            })}
                           </ul>
                         </div>
                       </div>
                     ))}
                  </div>
+                 </>
                )
             ) : (
               <div className="col-span-full flex flex-col items-center justify-center py-20 text-slate-400">
@@ -824,6 +1746,15 @@ const App: React.FC = () => {
               </div>
             )}
         </main>
+        {pagePreview && (
+          <PagePreview
+            blob={detailSourceBlob}
+            pagina={pagePreview.pagina}
+            processo={pagePreview.processo}
+            trecho={pagePreview.trecho}
+            onClose={() => setPagePreview(null)}
+          />
+        )}
       </div>
     );
   }
@@ -856,18 +1787,36 @@ const App: React.FC = () => {
                 <div className="px-2 pb-4 pt-1 space-y-3 border-b border-slate-100 mb-4">
                   <div className="flex items-center gap-2">
                     <button 
-                      onClick={analyzeBatchSequential}
-                      disabled={isSequentialRunning || workspace.filter(f => f.selected && f.status !== 'completed').length === 0}
+                      onClick={analyzeSelected}
+                      disabled={isBatchRunning || workspace.filter(f => f.selected && f.status !== 'completed').length === 0}
                       className="flex-1 py-3 bg-indigo-600 text-white text-[10px] font-black rounded-xl hover:bg-indigo-700 uppercase tracking-widest transition-all shadow-lg shadow-indigo-100 disabled:bg-slate-200 disabled:shadow-none flex items-center justify-center gap-2"
-                      title="Analisar os itens selecionados sequencialmente"
+                      title="Analisar os itens selecionados em paralelo"
                     >
-                      {isSequentialRunning ? (
+                      {isBatchRunning ? (
                         <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin" />
                       ) : (
                         <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
                       )}
-                      {isSequentialRunning ? 'Processando Lote...' : 'Análise Automática'}
+                      {isBatchRunning ? 'Processando Lote...' : 'Análise Automática'}
+                    </button>
+                    {isBatchRunning && (
+                      <button onClick={stopBatch} className="py-3 px-3 bg-red-50 text-red-600 text-[10px] font-black rounded-xl hover:bg-red-100 uppercase tracking-widest transition-all" title="Parar todos os itens do lote">Parar Lote</button>
+                    )}
+                  </div>
+                  {workspace.some(f => f.status === 'error') && !isBatchRunning && (
+                    <button onClick={retryFailed} className="w-full py-2 bg-red-50 text-red-600 text-[10px] font-black rounded-xl hover:bg-red-100 uppercase tracking-widest transition-all" title="Reprocessar apenas os itens que falharam">
+                      Reprocessar Falhas ({workspace.filter(f => f.status === 'error').length})
                     </button>
+                  )}
+                  <div className="flex gap-2 px-2">
+                    <label className="flex-1 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                      Paralelos
+                      <input type="number" min={1} max={8} value={settings.concurrency} onChange={(e) => setSettings(prev => ({ ...prev, concurrency: Math.max(1, Number(e.target.value) || 1) }))} className="mt-1 w-full px-2 py-1 text-xs font-bold text-slate-700 border border-slate-200 rounded-lg" />
+                    </label>
+                    <label className="flex-1 text-[9px] font-black text-slate-400 uppercase tracking-widest" title="0 = sem limite">
+                      Req./min
+                      <input type="number" min={0} value={settings.requestsPerMinute} onChange={(e) => setSettings(prev => ({ ...prev, requestsPerMinute: Math.max(0, Number(e.target.value) || 0) }))} className="mt-1 w-full px-2 py-1 text-xs font-bold text-slate-700 border border-slate-200 rounded-lg" />
+                    </label>
                   </div>
                   <div className="flex justify-between items-center px-2">
                     <button 
@@ -889,11 +1838,29 @@ const App: React.FC = () => {
                     selected={file.selected}
                     isCompleted={file.status === 'completed'}
                     onToggleSelect={() => toggleFileSelection(file.id)}
-                    status={file.status === 'processing' ? 'Analizando...' : (file.status === 'completed' ? 'Finalizado' : (file.status === 'error' ? 'Erro' : 'Aguardando'))}
-                    statusColor={file.status === 'processing' ? 'bg-indigo-50 text-indigo-600' : (file.status === 'completed' ? 'bg-green-50 text-green-600' : (file.status === 'error' ? 'bg-red-50 text-red-600' : 'bg-slate-100 text-slate-400'))}
+                    children={
+                      <>
+                        {jobProgress[file.id] && (
+                          <div className="ml-6 mt-2">
+                            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${jobProgress[file.id].total ? Math.round((jobProgress[file.id].current / jobProgress[file.id].total) * 100) : 5}%` }} />
+                            </div>
+                            <p className="text-[9px] text-slate-400 font-bold mt-1 uppercase tracking-widest">
+                              {jobProgress[file.id].phase === 'extracting' ? 'Lendo páginas' : 'Analisando blocos'} {jobProgress[file.id].total ? `${jobProgress[file.id].current}/${jobProgress[file.id].total}` : ''}
+                            </p>
+                            {jobProgress[file.id].note && <p className="text-[9px] text-amber-600 font-medium mt-0.5">{jobProgress[file.id].note}</p>}
+                          </div>
+                        )}
+                        {file.status === 'error' && file.error && (
+                          <p className="ml-6 mt-2 text-[10px] text-red-600 font-medium break-words">{file.error}</p>
+                        )}
+                      </>
+                    }
+                    status={WORKSPACE_STATUS_LABELS[file.status]}
+                    statusColor={WORKSPACE_STATUS_COLORS[file.status]}
                     actions={
                       <>
-                        {file.status === 'processing' ? (
+                        {file.status === 'processing' || file.status === 'queued' ? (
                           <button onClick={() => stopAnalysis(file.id)} className="flex-1 py-2 bg-red-50 text-red-600 text-[10px] font-black rounded-xl hover:bg-red-100 uppercase tracking-widest transition-all" title="Parar Análise">Parar</button>
                         ) : file.status !== 'completed' ? (
                           <button onClick={() => analyzeWorkspaceFile(file)} className="flex-1 py-2 bg-indigo-600 text-white text-[10px] font-black rounded-xl hover:bg-indigo-700 uppercase tracking-widest transition-all" title="Analisar Individualmente">Analisar</button>
@@ -903,13 +1870,13 @@ const App: React.FC = () => {
                         
                         {file.status === 'completed' && file.results && (
                           <div className="flex gap-2 w-full mt-2">
-                            <button onClick={() => openDetailView(file.results!, file.name)} className="flex-1 p-2 bg-indigo-50 border border-indigo-100 rounded-xl text-indigo-600 hover:bg-indigo-100 transition-all flex justify-center" title="Ver Resultados e Exportação">
+                            <button onClick={() => openWorkspaceResults(file)} className="flex-1 p-2 bg-indigo-50 border border-indigo-100 rounded-xl text-indigo-600 hover:bg-indigo-100 transition-all flex justify-center" title="Ver Resultados e Exportação">
                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"></path></svg>
                             </button>
-                            <button onClick={() => downloadResults(file.results!, file.name)} className="p-2 bg-slate-50 border border-slate-200 rounded-xl text-slate-500 hover:bg-slate-100 transition-all" title="Baixar Resultados (TXT)">
+                            <button onClick={() => downloadResults(file.results!, file.name, undefined, file.processes)} className="p-2 bg-slate-50 border border-slate-200 rounded-xl text-slate-500 hover:bg-slate-100 transition-all" title="Baixar Resultados (TXT)">
                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
                             </button>
-                            <button onClick={() => downloadResultsAsPdf(file.results!, file.name)} className="p-2 bg-red-50 border border-red-100 rounded-xl text-red-500 hover:bg-red-100 transition-all" title="Baixar Análise (PDF)">
+                            <button onClick={() => downloadResultsAsPdf(file.results!, file.name, undefined, file.processes)} className="p-2 bg-red-50 border border-red-100 rounded-xl text-red-500 hover:bg-red-100 transition-all" title="Baixar Análise (PDF)">
                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"></path></svg>
                             </button>
                           </div>
@@ -932,6 +1899,26 @@ const App: React.FC = () => {
                   Exportar Histórico Completo
                 </button>
               )}
+              <div className="p-3 rounded-xl border border-slate-100 bg-slate-50 space-y-2">
+                <div className="flex gap-2">
+                  <button
+                    onClick={exportBackup}
+                    disabled={backupBusy || history.length === 0}
+                    className="flex-1 py-2 bg-white border border-slate-200 text-slate-600 text-[9px] font-black rounded-lg hover:bg-slate-100 uppercase tracking-widest transition-all disabled:opacity-50"
+                    title="Histórico, dicionário de foros e configurações em um arquivo que pode ser restaurado em outro navegador"
+                  >
+                    Fazer Backup
+                  </button>
+                  <label className={`flex-1 py-2 bg-white border border-slate-200 text-slate-600 text-[9px] font-black rounded-lg hover:bg-slate-100 uppercase tracking-widest transition-all text-center cursor-pointer ${backupBusy ? 'opacity-50 pointer-events-none' : ''}`}>
+                    Restaurar
+                    <input type="file" className="hidden" accept=".json,.zip,application/json,application/zip" onChange={handleBackupFile} />
+                  </label>
+                </div>
+                <label className="flex items-center gap-2 text-[9px] font-black text-slate-400 uppercase tracking-widest px-1 cursor-pointer">
+                  <input type="checkbox" checked={backupIncludeDocuments} onChange={(e) => setBackupIncludeDocuments(e.target.checked)} className="w-3.5 h-3.5 text-indigo-600 border-slate-300 rounded" />
+                  Incluir PDFs originais (ZIP)
+                </label>
+              </div>
               {history.length === 0 ? (
                  <div className="text-center py-20 opacity-30 flex flex-col items-center">
                   <svg className="w-12 h-12 mb-2 text-slate-300" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
@@ -943,21 +1930,25 @@ const App: React.FC = () => {
                     key={item.id}
                     title={item.name}
                     subtitle={new Date(item.timestamp).toLocaleString('pt-BR')}
+                    status={item.error ? 'Erro' : undefined}
+                    statusColor="bg-red-50 text-red-600"
                     actions={
                       <div className="flex flex-col gap-2 w-full">
                         <button 
-                          onClick={() => openDetailView(item.results, item.name)}
+                          onClick={() => openDetailView(item)}
                           className="w-full py-2 bg-indigo-50 text-indigo-600 text-[10px] font-black rounded-xl hover:bg-indigo-100 flex items-center justify-center gap-1.5 uppercase tracking-widest transition-all"
                         >
                           Visualizar & Exportar
                         </button>
                         <div className="flex gap-2">
-                           <button onClick={() => downloadResults(item.results, item.name)} className="flex-1 p-2 bg-slate-50 border border-slate-200 rounded-xl text-slate-500 hover:bg-slate-100 transition-all flex justify-center" title="Baixar Resultados (TXT)">
+                           <button onClick={() => downloadResults(item.results, item.name, undefined, item.processes)} className="flex-1 p-2 bg-slate-50 border border-slate-200 rounded-xl text-slate-500 hover:bg-slate-100 transition-all flex justify-center" title="Baixar Resultados (TXT)">
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"></path></svg>
                            </button>
-                           <button onClick={() => downloadResultsAsPdf(item.results, item.name)} className="flex-1 p-2 bg-red-50 border border-red-100 rounded-xl text-red-500 hover:bg-red-100 transition-all flex justify-center" title="Baixar Análise (PDF)">
+                           <button onClick={() => downloadResultsAsPdf(item.results, item.name, undefined, item.processes)} className="flex-1 p-2 bg-red-50 border border-red-100 rounded-xl text-red-500 hover:bg-red-100 transition-all flex justify-center" title="Baixar Análise (PDF)">
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"></path></svg>
                            </button>
+                           <button onClick={() => downloadTable([item], item.name, 'csv')} className="flex-1 p-2 bg-emerald-50 border border-emerald-100 rounded-xl text-emerald-600 hover:bg-emerald-100 transition-all text-[9px] font-black" title="Baixar Planilha (CSV)">CSV</button>
+                           <button onClick={() => downloadTable([item], item.name, 'xlsx')} className="flex-1 p-2 bg-emerald-50 border border-emerald-100 rounded-xl text-emerald-600 hover:bg-emerald-100 transition-all text-[9px] font-black" title="Baixar Planilha (XLSX)">XLSX</button>
                         </div>
                       </div>
                     }
@@ -967,6 +1958,46 @@ const App: React.FC = () => {
             </div>
           )}
         </div>
+
+        {storageUsage && (
+          <div className="p-4 border-t border-slate-100 space-y-2">
+            <div className="flex justify-between items-center px-2">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Armazenamento</span>
+              <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">
+                {formatBytes(storageUsage.usedBytes)}{storageUsage.quotaBytes > 0 ? ` de ${formatBytes(storageUsage.quotaBytes)}` : ''}
+              </span>
+            </div>
+            {storageUsage.quotaBytes > 0 && (
+              <div className="mx-2 bg-slate-100 h-1.5 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500" style={{ width: `${Math.min(100, (storageUsage.usedBytes / storageUsage.quotaBytes) * 100)}%` }} />
+              </div>
+            )}
+            <p className="text-[9px] text-slate-400 font-medium px-2">
+              Workspace {formatBytes(storageUsage.workspaceBytes)} • Originais {formatBytes(storageUsage.documentsBytes)} • {storageUsage.historyCount} análises
+            </p>
+            <div className="flex gap-2 px-2">
+              <button
+                onClick={() => setDocuments(prev => pruneDocuments(prev, history))}
+                className="flex-1 py-1.5 text-[9px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest border border-slate-100 rounded-lg transition-colors"
+                title="Remover PDFs originais que não estão mais ligados a nenhuma análise do histórico"
+              >
+                Limpar Órfãos
+              </button>
+              <button
+                onClick={() => { if (confirm("Remover os arquivos já analisados do workspace?")) setWorkspace(prev => prev.filter(f => f.status !== 'completed')); }}
+                className="flex-1 py-1.5 text-[9px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest border border-slate-100 rounded-lg transition-colors"
+              >
+                Limpar Concluídos
+              </button>
+              <button
+                onClick={() => { if (confirm("Remover todos os PDFs originais salvos? As análises continuam no histórico, mas sem pré-visualização de páginas.")) setDocuments({}); }}
+                className="flex-1 py-1.5 text-[9px] font-black text-slate-400 hover:text-red-500 uppercase tracking-widest border border-slate-100 rounded-lg transition-colors"
+              >
+                Apagar Originais
+              </button>
+            </div>
+          </div>
+        )}
       </aside>
 
       <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
@@ -977,11 +2008,12 @@ const App: React.FC = () => {
               <button onClick={() => setToolMode('extract')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all whitespace-nowrap ${toolMode === 'extract' ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Extração</button>
               <button onClick={() => setToolMode('ocr')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all whitespace-nowrap ${toolMode === 'ocr' ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>OCR Modality</button>
               <button onClick={() => setToolMode('split')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all whitespace-nowrap ${toolMode === 'split' ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Divisor</button>
+              <button onClick={() => setToolMode('merge')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all whitespace-nowrap ${toolMode === 'merge' ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Mesclar</button>
               <button onClick={() => setToolMode('consolidated')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all whitespace-nowrap ${toolMode === 'consolidated' ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Análise Detalhada</button>
             </div>
           </div>
           <button 
-            onClick={() => { if(confirm("Limpar todo o histórico?")) { setHistory([]); setExpandedResults({}); } }}
+            onClick={() => { if(confirm("Limpar todo o histórico?")) { setHistory([]); setDocuments({}); setExpandedResults({}); } }}
             className="text-[10px] font-black text-slate-300 hover:text-red-500 uppercase tracking-widest transition-colors"
           >
             Limpar Histórico
@@ -989,7 +2021,9 @@ const App: React.FC = () => {
         </header>
 
         <main className="flex-1 overflow-y-auto p-8 lg:p-12 max-w-5xl mx-auto w-full space-y-10">
-          {toolMode === 'consolidated' ? (
+          {toolMode === 'merge' ? (
+            <MergeTool files={workspace} onAddFiles={addFilesToWorkspace} onMerged={addMergedFile} />
+          ) : toolMode === 'consolidated' ? (
              <div className="space-y-8 animate-in fade-in zoom-in-95 duration-500">
                 <section className="bg-white rounded-4xl p-10 border border-slate-100 shadow-2xl">
                    <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
@@ -1041,6 +2075,9 @@ const App: React.FC = () => {
                                   </div>
                                   <h4 className="font-black text-slate-900 uppercase tracking-tight truncate">{foro}</h4>
                                   <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mt-1">Presente em {data.docs.size} arquivos</p>
+                                  {countInvalid({ [foro]: Array.from(data.procesos) }) > 0 && (
+                                     <p className="text-[8px] font-black text-amber-600 uppercase tracking-widest mt-1">⚠ {countInvalid({ [foro]: Array.from(data.procesos) })} com DV inválido</p>
+                                  )}
                                </label>
                             ))}
                          </div>
@@ -1052,7 +2089,13 @@ const App: React.FC = () => {
                                   <h3 className="text-xl font-black">{consolidatedSelection.size} Tribunais Selecionados</h3>
                                </div>
                                <div className="flex gap-4">
+                                  {consolidatedSelection.size > 1 && (
+                                    <button onClick={mergeSelectedForos} className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white text-xs font-black rounded-2xl transition-all uppercase tracking-widest border border-white/20" title="Criar apelidos que unificam os foros selecionados">Unificar Foros</button>
+                                  )}
                                   <button onClick={() => downloadConsolidatedSelection('txt')} className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white text-xs font-black rounded-2xl transition-all uppercase tracking-widest border border-white/20">Baixar TXT</button>
+                                  <button onClick={() => downloadConsolidatedTable('csv')} className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white text-xs font-black rounded-2xl transition-all uppercase tracking-widest border border-white/20">CSV</button>
+                                  <button onClick={() => downloadConsolidatedTable('xlsx')} className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white text-xs font-black rounded-2xl transition-all uppercase tracking-widest border border-white/20">XLSX</button>
+                                  <button onClick={() => downloadCalendar(history, "Consolidado_Multi_Documentos", consolidatedSelection)} className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white text-xs font-black rounded-2xl transition-all uppercase tracking-widest border border-white/20" title="Prazos e audiências dos foros selecionados">Agenda (.ics)</button>
                                   <button onClick={() => downloadConsolidatedSelection('pdf')} className="px-8 py-3 bg-white text-indigo-900 text-xs font-black rounded-2xl hover:scale-105 transition-all uppercase tracking-widest shadow-xl">Gerar Relatório PDF</button>
                                </div>
                             </div>
@@ -1060,6 +2103,43 @@ const App: React.FC = () => {
                       </>
                    )}
                 </section>
+
+                <section className="bg-white rounded-4xl p-10 border border-slate-100 shadow-2xl">
+                   <div className="mb-6">
+                      <h2 className="text-xl font-black text-slate-900 mb-1 tracking-tight">Dicionário de Foros</h2>
+                      <p className="text-slate-400 text-sm">Acentos, maiúsculas e prefixos como "Foro de" e "Comarca de" já são ignorados. Use apelidos para unificar grafias diferentes.</p>
+                   </div>
+                   <div className="flex flex-col md:flex-row gap-3 mb-6">
+                      <input
+                        value={aliasVariant}
+                        onChange={(e) => setAliasVariant(e.target.value)}
+                        placeholder="Variante (ex: Jaboticabal/SP)"
+                        className="flex-1 px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm text-slate-700 focus:ring-4 focus:ring-indigo-100 focus:bg-white outline-none transition-all"
+                      />
+                      <input
+                        value={aliasCanonical}
+                        onChange={(e) => setAliasCanonical(e.target.value)}
+                        placeholder="Nome canônico (ex: Jaboticabal)"
+                        className="flex-1 px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm text-slate-700 focus:ring-4 focus:ring-indigo-100 focus:bg-white outline-none transition-all"
+                      />
+                      <button onClick={handleAddAlias} disabled={!aliasVariant.trim() || !aliasCanonical.trim()} className="px-6 py-3 bg-indigo-600 text-white text-xs font-black rounded-2xl hover:bg-indigo-700 uppercase tracking-widest transition-all disabled:bg-slate-200">Adicionar</button>
+                   </div>
+                   {Object.keys(aliases).length === 0 ? (
+                      <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest text-center py-6">Nenhum apelido cadastrado</p>
+                   ) : (
+                      <ul className="divide-y divide-slate-100">
+                         {Object.entries(aliases).sort((a, b) => a[0].localeCompare(b[0], 'pt-BR')).map(([key, canonical]) => (
+                            <li key={key} className="flex items-center justify-between py-3">
+                               <span className="text-sm text-slate-500 font-mono">{key}</span>
+                               <div className="flex items-center gap-4">
+                                  <span className="text-sm font-black text-slate-900 uppercase tracking-tight">{canonical}</span>
+                                  <button onClick={() => updateAliases(removeAlias(aliases, key))} className="text-[10px] font-black text-slate-300 hover:text-red-500 uppercase tracking-widest transition-colors">Remover</button>
+                               </div>
+                            </li>
+                         ))}
+                      </ul>
+                   )}
+                </section>
              </div>
           ) : (
             <>
@@ -1071,9 +2151,74 @@ const App: React.FC = () => {
                      'Divisão de Documentos'}
                   </h2>
                   <p className="text-slate-400 text-sm mb-10 max-w-md mx-auto">
-                    {toolMode === 'ocr' ? 'Upload de Imagens ou PDFs digitalizados para reconhecimento visual e extração de processos.' : 'Upload de PDFs para processamento jurídico especializado com Gemini 3 Pro.'}
+                    {toolMode === 'ocr' ? 'Upload de Imagens ou PDFs digitalizados para reconhecimento visual e extração de processos.' : `Upload de PDFs para processamento jurídico especializado com ${settings.engine === 'local' ? 'extração local, sem envio a serviços de IA' : getProvider(settings).label}.`}
                   </p>
                   
+                  {toolMode === 'extract' && (
+                    <div className="mb-8 text-left">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3 ml-2">Motor de Extração</label>
+                      <div className="flex gap-1 bg-slate-100 p-1.5 rounded-2xl">
+                        {([
+                          ['hybrid', 'Híbrido (Local + IA)'],
+                          ['ai', 'Somente IA'],
+                          ['local', 'Local (Sem IA)'],
+                        ] as const).map(([engine, label]) => (
+                          <button
+                            key={engine}
+                            onClick={() => setSettings(prev => ({ ...prev, engine }))}
+                            className={`flex-1 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all whitespace-nowrap ${settings.engine === engine ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {(toolMode === 'extract' || toolMode === 'ocr') && (toolMode === 'ocr' || settings.engine !== 'local') && (
+                    <div className="mb-8 text-left">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3 ml-2">Provedor de IA</label>
+                      <div className="flex gap-1 bg-slate-100 p-1.5 rounded-2xl">
+                        {PROVIDER_OPTIONS.map(({ id, label }) => (
+                          <button
+                            key={id}
+                            onClick={() => setSettings(prev => ({ ...prev, provider: id }))}
+                            className={`flex-1 px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-xl transition-all whitespace-nowrap ${settings.provider === id ? 'bg-white text-indigo-600 shadow-md' : 'text-slate-400 hover:text-slate-600'}`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                      {settings.provider === 'openai' && (
+                        <div className="grid gap-3 md:grid-cols-3 mt-3">
+                          <input
+                            value={settings.openai.baseUrl}
+                            onChange={(e) => setSettings(prev => ({ ...prev, openai: { ...prev.openai, baseUrl: e.target.value } }))}
+                            placeholder="URL base (ex: http://servidor:8000/v1)"
+                            className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs text-slate-700 font-mono focus:ring-4 focus:ring-indigo-100 focus:bg-white outline-none transition-all"
+                          />
+                          <input
+                            value={settings.openai.model}
+                            onChange={(e) => setSettings(prev => ({ ...prev, openai: { ...prev.openai, model: e.target.value } }))}
+                            placeholder="Modelo"
+                            className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs text-slate-700 font-mono focus:ring-4 focus:ring-indigo-100 focus:bg-white outline-none transition-all"
+                          />
+                          <input
+                            type="password"
+                            value={settings.openai.apiKey || ''}
+                            onChange={(e) => setSettings(prev => ({ ...prev, openai: { ...prev.openai, apiKey: e.target.value } }))}
+                            placeholder="Chave de API (opcional)"
+                            className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs text-slate-700 font-mono focus:ring-4 focus:ring-indigo-100 focus:bg-white outline-none transition-all"
+                          />
+                        </div>
+                      )}
+                      <label className="flex items-center gap-3 mt-3 ml-2 cursor-pointer" title="Desligue para pedir só foro e número: respostas menores e mais baratas">
+                        <input type="checkbox" checked={settings.detailedExtraction} onChange={(e) => setSettings(prev => ({ ...prev, detailedExtraction: e.target.checked }))} className="w-4 h-4 text-indigo-600 border-slate-300 rounded" />
+                        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Extração detalhada (vara, classe, assunto, partes, advogados e data)</span>
+                      </label>
+                    </div>
+                  )}
+
                   {(toolMode === 'extract' || toolMode === 'ocr') && (
                     <div className="mb-8 text-left">
                       <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3 ml-2">Lista de Processos para Filtro (Opcional)</label>
@@ -1083,6 +2228,12 @@ const App: React.FC = () => {
                         placeholder="Cole os números de processo (um por linha ou separados por vírgula) para filtrar a extração."
                         className="w-full h-28 p-5 bg-slate-50 border border-slate-100 rounded-3xl text-sm text-slate-700 focus:ring-4 focus:ring-indigo-100 focus:bg-white focus:border-indigo-400 transition-all outline-none resize-none font-mono placeholder:text-slate-300 shadow-inner"
                       />
+                      {toolMode === 'extract' && (
+                        <label className="flex items-center gap-3 mt-3 ml-2 cursor-pointer" title="Também vale para os arquivos analisados no workspace">
+                          <input type="checkbox" checked={djeMode} onChange={(e) => setDjeMode(e.target.checked)} className="w-4 h-4 text-indigo-600 border-slate-300 rounded" />
+                          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Modo Diário Oficial (separar publicações e advogados intimados)</span>
+                        </label>
+                      )}
                     </div>
                   )}
 
@@ -1105,24 +2256,134 @@ const App: React.FC = () => {
                   )}
 
                   {toolMode === 'split' && totalPages !== null && (
-                    <div className="mt-10 pt-10 border-t border-slate-50 flex flex-col md:flex-row items-center justify-center gap-10">
-                      <div className="text-center md:text-left">
-                        <label className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">Total de Páginas</label>
-                        <span className="text-4xl font-black text-slate-900 tracking-tighter">{totalPages}</span>
+                    <div className="mt-10 pt-10 border-t border-slate-50 space-y-8">
+                      <div className="flex flex-col md:flex-row items-center justify-center gap-10">
+                        <div className="text-center md:text-left">
+                          <label className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">Total de Páginas</label>
+                          <span className="text-4xl font-black text-slate-900 tracking-tighter">{totalPages}</span>
+                        </div>
+                        <div className="h-12 w-px bg-slate-100 hidden md:block"></div>
+                        <div className="text-center md:text-left">
+                          <label className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">Modo de Divisão</label>
+                          <div className="flex flex-wrap gap-1 bg-slate-100 p-1 rounded-xl">
+                            {SPLIT_MODE_OPTIONS.map(option => (
+                              <button key={option.id} onClick={() => setSplitMode(option.id)} className={`px-3 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${splitMode === option.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>{option.label}</button>
+                            ))}
+                          </div>
+                        </div>
                       </div>
-                      <div className="h-12 w-px bg-slate-100 hidden md:block"></div>
-                      <div className="text-center md:text-left">
-                        <label className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">Páginas por Bloco</label>
-                        <input 
-                          type="number" 
-                          min="1" 
-                          max={totalPages} 
-                          value={pagesPerPart} 
-                          onChange={(e) => setPagesPerPart(parseInt(e.target.value) || 1)} 
-                          className="w-28 bg-slate-50 border border-slate-100 rounded-2xl px-5 py-3 font-black text-slate-900 focus:ring-4 focus:ring-indigo-100 text-center text-xl transition-all" 
-                        />
+
+                      <div className="flex flex-col md:flex-row items-center justify-center gap-6">
+                        {splitMode === 'fixed' && (
+                          <div className="text-center md:text-left">
+                            <label className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">Páginas por Bloco</label>
+                            <input 
+                              type="number" 
+                              min="1" 
+                              max={totalPages} 
+                              value={pagesPerPart} 
+                              onChange={(e) => setPagesPerPart(parseInt(e.target.value) || 1)} 
+                              className="w-28 bg-slate-50 border border-slate-100 rounded-2xl px-5 py-3 font-black text-slate-900 focus:ring-4 focus:ring-indigo-100 text-center text-xl transition-all" 
+                            />
+                          </div>
+                        )}
+                        {splitMode === 'ranges' && (
+                          <div className="text-center md:text-left">
+                            <label className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">Intervalos de Páginas</label>
+                            <input 
+                              type="text" 
+                              value={splitRanges} 
+                              placeholder="1-12, 13-40, 41-"
+                              onChange={(e) => setSplitRanges(e.target.value)} 
+                              className="w-72 bg-slate-50 border border-slate-100 rounded-2xl px-5 py-3 font-bold text-slate-900 focus:ring-4 focus:ring-indigo-100 transition-all" 
+                            />
+                          </div>
+                        )}
+                        {splitMode === 'size' && (
+                          <div className="text-center md:text-left">
+                            <label className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block">Tamanho Máximo (MB)</label>
+                            <input 
+                              type="number" 
+                              min="0.5" 
+                              step="0.5"
+                              value={splitMaxMb} 
+                              onChange={(e) => setSplitMaxMb(parseFloat(e.target.value) || 0)} 
+                              className="w-28 bg-slate-50 border border-slate-100 rounded-2xl px-5 py-3 font-black text-slate-900 focus:ring-4 focus:ring-indigo-100 text-center text-xl transition-all" 
+                            />
+                          </div>
+                        )}
+                        {splitMode === 'bookmarks' && (
+                          <p className="text-xs font-medium text-slate-500 max-w-sm text-center">Uma parte para cada marcador de primeiro nível, nomeada com o título do marcador.</p>
+                        )}
+                        {splitMode === 'blank' && (
+                          <p className="text-xs font-medium text-slate-500 max-w-sm text-center">Divide a cada página sem texto nem imagens; as páginas separadoras são descartadas.</p>
+                        )}
+                        {splitMode === 'process' && (
+                          <p className="text-xs font-medium text-slate-500 max-w-sm text-center">Um PDF por processo, a partir dos números encontrados em cada página. Páginas ambíguas passam por revisão antes da divisão.</p>
+                        )}
+                        <button onClick={previewSplit} disabled={loading} className="px-8 py-4 bg-white border border-indigo-200 text-indigo-600 font-black rounded-2xl hover:bg-indigo-50 transition-all disabled:opacity-50 uppercase tracking-widest">Pré-visualizar</button>
                       </div>
-                      <button onClick={handleSplit} disabled={loading} className="px-10 py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl shadow-indigo-100 hover:bg-indigo-700 hover:-translate-y-1 transition-all disabled:bg-slate-200 uppercase tracking-widest">Gerar Divisões</button>
+
+                      {boundaryPlan && boundaryPlan.ambiguous.length > 0 && (
+                        <div className="bg-amber-50 rounded-2xl border border-amber-100 p-6 text-left">
+                          <div className="flex items-center justify-between mb-4">
+                            <span className="text-[10px] font-black text-amber-700 uppercase tracking-widest">Revisão de páginas ambíguas</span>
+                            <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{boundaryPlan.unresolved} pendentes</span>
+                          </div>
+                          <ul className="space-y-3 max-h-72 overflow-y-auto">
+                            {boundaryPlan.ambiguous.map(item => (
+                              <li key={item.page} className="bg-white rounded-xl border border-amber-100 p-3">
+                                <div className="flex items-center justify-between gap-4">
+                                  <span className="text-xs font-black text-slate-700">Página {item.page}</span>
+                                  <select
+                                    value={boundaryManual[item.page] ?? 'pending'}
+                                    onChange={(e) => {
+                                      const value = e.target.value;
+                                      setBoundaryManual(prev => {
+                                        const next = { ...prev };
+                                        if (value === 'pending') delete next[item.page];
+                                        else next[item.page] = value;
+                                        return next;
+                                      });
+                                    }}
+                                    className="text-xs font-bold text-slate-700 border border-slate-200 rounded-lg px-2 py-1"
+                                  >
+                                    <option value="pending">Atribuir a...</option>
+                                    {Array.from(new Set([...item.candidates, ...boundaryPlan.processes])).map(processo => (
+                                      <option key={processo} value={processo}>{processo}{item.candidates.includes(processo) ? ' (citado na página)' : ''}</option>
+                                    ))}
+                                    <option value={DISCARD_PAGE}>Descartar página</option>
+                                  </select>
+                                </div>
+                                <p className="text-[10px] text-slate-400 font-medium mt-2 italic">{item.trecho || 'Página sem texto.'}</p>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {splitPlan && (
+                        <div className="bg-slate-50 rounded-2xl border border-slate-100 p-6 text-left">
+                          <div className="flex items-center justify-between mb-4">
+                            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                              {splitPlan.length} partes planejadas
+                              {splitPlan.some(part => part.oversize) && <span className="block text-amber-600 normal-case tracking-normal mt-1">Algumas páginas sozinhas passam do tamanho máximo e ficarão acima do limite.</span>}
+                            </span>
+                            <button onClick={handleSplit} disabled={loading || (boundaryPlan?.unresolved ?? 0) > 0} className="px-10 py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl shadow-indigo-100 hover:bg-indigo-700 hover:-translate-y-1 transition-all disabled:bg-slate-200 uppercase tracking-widest">Gerar Divisões</button>
+                          </div>
+                          <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+                            {splitPlan.map((part, idx) => (
+                              <li key={idx} className="flex items-center justify-between py-2 text-xs">
+                                <span className="font-bold text-slate-700 truncate pr-4">{part.name}</span>
+                                <span className="text-slate-400 font-medium whitespace-nowrap">
+                                  {part.pages.length} pág. ({part.pages[0]}–{part.pages[part.pages.length - 1]}{part.pages.length !== part.pages[part.pages.length - 1] - part.pages[0] + 1 ? ', não contíguas' : ''}){part.estimatedBytes !== undefined ? ` · até ${formatBytes(part.estimatedBytes)}` : ''}
+                                  {part.oversize && <span className="ml-2 font-black text-amber-600">acima do limite</span>}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1135,7 +2396,7 @@ const App: React.FC = () => {
                     <div className="absolute inset-0 flex items-center justify-center text-xs font-black text-indigo-600">
                       {progress.phase === 'extracting' 
                         ? (progress.total > 0 ? `${Math.round((progress.current / progress.total) * 100)}%` : '...') 
-                        : `${simulatedProgress}%`}
+                        : progress.total > 1 ? `${Math.round((progress.current / progress.total) * 100)}%` : `${simulatedProgress}%`}
                     </div>
                   </div>
                   <div className="text-center">
@@ -1143,11 +2404,14 @@ const App: React.FC = () => {
                       {progress.phase === 'extracting' ? 'Extração de Conteúdo' : 'Análise Visual Gemini IA'}
                     </p>
                     <p className="text-sm font-black text-slate-800 tracking-tight">
-                       {progress.phase === 'extracting' ? 'Processando extração de texto...' : 'Identificando processos e tribunais visualmente...'}
+                       {progress.phase === 'extracting' ? 'Processando extração de texto...' : 
+                        progress.total > 1 ? `Analisando bloco ${Math.min(progress.current + 1, progress.total)} de ${progress.total}...` :
+                        'Identificando processos e tribunais visualmente...'}
                     </p>
                     <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-3 flex flex-col gap-1.5">
                       <span className="truncate max-w-[300px] font-black text-indigo-600">{fileName}</span>
                       <span className="text-slate-500 font-black animate-pulse">{calculateRemainingTime()}</span>
+                      {retryNotice && <span className="text-amber-600 font-black normal-case tracking-normal max-w-md">{retryNotice}</span>}
                     </p>
                   </div>
                   <div className="w-full max-w-md bg-slate-100 h-2.5 rounded-full overflow-hidden shadow-inner border border-slate-100">
@@ -1155,11 +2419,11 @@ const App: React.FC = () => {
                        className="h-full bg-gradient-to-r from-indigo-500 to-indigo-700 transition-all duration-300 ease-out shadow-lg" 
                        style={{width: progress.phase === 'extracting' 
                          ? (progress.total > 0 ? `${(progress.current / progress.total) * 100}%` : '5%')
-                         : `${simulatedProgress}%`
+                         : progress.total > 1 ? `${(progress.current / progress.total) * 100}%` : `${simulatedProgress}%`
                        }}
                      />
                   </div>
-                  <button onClick={() => stopAnalysis('direct_upload')} className="px-8 py-2.5 bg-red-50 text-red-600 text-[10px] font-black rounded-xl hover:bg-red-100 transition-all border border-red-100 uppercase tracking-widest">Interromper Processo</button>
+                  <button onClick={() => DIRECT_PROCESS_IDS.forEach(stopAnalysis)} className="px-8 py-2.5 bg-red-50 text-red-600 text-[10px] font-black rounded-xl hover:bg-red-100 transition-all border border-red-100 uppercase tracking-widest">Interromper Processo</button>
                 </div>
               )}
 
@@ -1177,6 +2441,10 @@ const App: React.FC = () => {
           )}
         </main>
       </div>
+
+      {importPreview && (
+        <BackupImportDialog preview={importPreview} onConfirm={confirmImport} onCancel={() => setImportPreview(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ImportPreview } from '../services/backupService';
+
+interface BackupImportDialogProps {
+  preview: ImportPreview;
+  onConfirm: (applySettings: boolean) => void;
+  onCancel: () => void;
+}
+
+const SETTINGS_LABELS: Record<string, string> = {
+  engine: 'Motor de extração',
+  provider: 'Provedor de IA',
+  openai: 'Endpoint compatível com OpenAI',
+  concurrency: 'Arquivos em paralelo',
+  requestsPerMinute: 'Requisições por minuto',
+  detailedExtraction: 'Extração detalhada',
+};
+
+const BackupImportDialog: React.FC<BackupImportDialogProps> = ({ preview, onConfirm, onCancel }) => {
+  const [applySettings, setApplySettings] = useState(false);
+  const incoming = [...preview.added, ...preview.renamed];
+  const aliasesAdded = Object.entries(preview.aliasesAdded);
+  const documentCount = Object.keys(preview.documents).length;
+  const nothingToImport = incoming.length === 0 && aliasesAdded.length === 0 && preview.settingsChanged.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+      <div className="bg-white rounded-4xl shadow-2xl max-w-2xl w-full max-h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="px-8 py-5 border-b border-slate-100">
+          <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">Restaurar Backup</p>
+          <h3 className="text-lg font-black text-slate-800">Gerado em {new Date(preview.exportedAt).toLocaleString('pt-BR')}</h3>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-4 rounded-2xl bg-emerald-50 border border-emerald-100">
+              <span className="block text-2xl font-black text-emerald-600">{incoming.length}</span>
+              <span className="text-[9px] font-black uppercase text-emerald-700 tracking-widest">Análises novas</span>
+            </div>
+            <div className="p-4 rounded-2xl bg-slate-50 border border-slate-100">
+              <span className="block text-2xl font-black text-slate-500">{preview.duplicates.length}</span>
+              <span className="text-[9px] font-black uppercase text-slate-500 tracking-widest">Duplicadas</span>
+            </div>
+            <div className="p-4 rounded-2xl bg-indigo-50 border border-indigo-100">
+              <span className="block text-2xl font-black text-indigo-600">{documentCount}</span>
+              <span className="text-[9px] font-black uppercase text-indigo-700 tracking-widest">PDFs originais</span>
+            </div>
+          </div>
+
+          {incoming.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Serão adicionadas</h4>
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {incoming.map(item => (
+                  <li key={item.id} className="flex justify-between gap-3 text-xs text-slate-600">
+                    <span className="font-bold truncate" title={item.name}>{item.name}</span>
+                    <span className="text-slate-400 whitespace-nowrap">
+                      {new Date(item.timestamp).toLocaleString('pt-BR')}
+                      {preview.renamed.includes(item) && ' • id já usado, entra como cópia'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {preview.duplicates.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Ignoradas (já existem)</h4>
+              <ul className="space-y-1 max-h-32 overflow-y-auto">
+                {preview.duplicates.map(({ item, reason }) => (
+                  <li key={item.id} className="flex justify-between gap-3 text-xs text-slate-400">
+                    <span className="truncate" title={item.name}>{item.name}</span>
+                    <span className="whitespace-nowrap">{reason === 'id' ? 'mesmo registro' : 'mesmo conteúdo'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {(aliasesAdded.length > 0 || preview.aliasConflicts.length > 0) && (
+            <div>
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Dicionário de Foros</h4>
+              <p className="text-xs text-slate-600">{aliasesAdded.length} apelido(s) novo(s).</p>
+              {preview.aliasConflicts.map(conflict => (
+                <p key={conflict.variant} className="text-xs text-amber-700">
+                  "{conflict.variant}" continua como "{conflict.current}" (backup: "{conflict.incoming}")
+                </p>
+              ))}
+            </div>
+          )}
+
+          {preview.settingsChanged.length > 0 && (
+            <label className="flex items-start gap-3 p-4 rounded-2xl border border-slate-100 bg-slate-50 cursor-pointer">
+              <input type="checkbox" checked={applySettings} onChange={(e) => setApplySettings(e.target.checked)} className="mt-0.5 w-4 h-4 text-indigo-600 border-slate-300 rounded" />
+              <span className="text-xs text-slate-600">
+                <span className="font-black block">Aplicar as configurações do backup</span>
+                {preview.settingsChanged.map(key => SETTINGS_LABELS[key] || key).join(', ')}. A chave de API atual é mantida.
+              </span>
+            </label>
+          )}
+
+          {nothingToImport && (
+            <p className="text-sm text-slate-400 font-bold text-center">Tudo o que há neste backup já está neste navegador.</p>
+          )}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-6 py-3 text-[10px] font-black text-slate-500 hover:bg-slate-100 rounded-xl uppercase tracking-widest transition-all">Cancelar</button>
+          <button
+            onClick={() => onConfirm(applySettings)}
+            disabled={nothingToImport}
+            className="px-8 py-3 bg-indigo-600 text-white text-[10px] font-black rounded-xl hover:bg-indigo-700 uppercase tracking-widest transition-all disabled:bg-slate-200"
+          >
+            Importar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupImportDialog;
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { CourtHoliday, DjePublication, LegalProcess, ProcessDeadline } from '../types';
+import { DEFAULT_HOLIDAYS, describeHolidayDate, formatDate, parseHolidayInput, weekdayName } from '../services/calendarService';
+import { actText, availabilityDate, computeDeadline, DEADLINE_OPTIONS, DEFAULT_DEADLINE_DAYS, DeadlineSuggestion, isValidDeadlineDays, suggestDeadline } from '../services/deadlineService';
+import { onlyDigits } from '../services/cnjService';
+import { lookupUf, UFS } from '../services/courtService';
+
+interface DeadlinePanelProps {
+  processes: LegalProcess[];
+  publications?: DjePublication[];
+  deadlines: ProcessDeadline[];
+  calendar: CourtHoliday[];
+  canPersist: boolean;
+  onSave: (deadlines: ProcessDeadline[]) => void;
+  onRemove: (processo: string) => void;
+  onCalendarChange: (calendar: CourtHoliday[]) => void;
+}
+
+interface Draft {
+  data: string;
+  dias: number;
+  tipo?: string;
+}
+
+const CalendarEditor: React.FC<{ calendar: CourtHoliday[]; onChange: (calendar: CourtHoliday[]) => void }> = ({ calendar, onChange }) => {
+  const [date, setDate] = useState('');
+  const [nome, setNome] = useState('');
+  const [uf, setUf] = useState('');
+  const parsedDate = parseHolidayInput(date);
+
+  const add = () => {
+    if (!parsedDate || !nome.trim()) return;
+    onChange([...calendar, { id: crypto.randomUUID(), nome: nome.trim(), data: parsedDate, ...(uf && { uf }) }]);
+    setDate('');
+    setNome('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <input value={date} onChange={(e) => setDate(e.target.value)} placeholder="dd/mm ou dd/mm/aaaa" className="md:w-44 px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs text-slate-700 font-mono focus:ring-4 focus:ring-indigo-100 focus:bg-white outline-none transition-all" />
+        <input value={nome} onChange={(e) => setNome(e.target.value)} placeholder="Nome do feriado" className="flex-1 px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs text-slate-700 focus:ring-4 focus:ring-indigo-100 focus:bg-white outline-none transition-all" />
+        <select value={uf} onChange={(e) => setUf(e.target.value)} className="px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs font-black text-slate-600">
+          <option value="">Nacional</option>
+          {UFS.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+        <button onClick={add} disabled={!parsedDate || !nome.trim()} className="px-6 py-3 bg-indigo-600 text-white text-[10px] font-black rounded-2xl hover:bg-indigo-700 uppercase tracking-widest transition-all disabled:bg-slate-200">Incluir</button>
+      </div>
+      <ul className="grid md:grid-cols-2 gap-x-6 gap-y-1 max-h-64 overflow-y-auto">
+        {calendar.map(holiday => (
+          <li key={holiday.id} className="flex items-center gap-3 text-xs text-slate-600 py-1">
+            <span className="w-8 text-[10px] font-black text-slate-400">{holiday.uf || 'BR'}</span>
+            <span className="flex-1 truncate" title={holiday.nome}>{holiday.nome}</span>
+            <span className="text-[10px] font-mono text-slate-400 whitespace-nowrap">{describeHolidayDate(holiday.data)}</span>
+            <button onClick={() => onChange(calendar.filter(h => h.id !== holiday.id))} className="text-slate-300 hover:text-red-500 transition-colors" title="Remover feriado">✕</button>
+          </li>
+        ))}
+      </ul>
+      <button onClick={() => onChange(DEFAULT_HOLIDAYS)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600 transition-colors">Restaurar calendário padrão</button>
+    </div>
+  );
+};
+
+const DeadlinePanel: React.FC<DeadlinePanelProps> = ({ processes, publications, deadlines, calendar, canPersist, onSave, onRemove, onCalendarChange }) => {
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [showCalendar, setShowCalendar] = useState(false);
+
+  const byNumber = useMemo(() => new Map<string, ProcessDeadline>(deadlines.map(d => [onlyDigits(d.processo), d])), [deadlines]);
+  const suggestions = useMemo(
+    () => new Map<string, DeadlineSuggestion | null>(processes.map(p => [onlyDigits(p.processo), suggestDeadline(actText(p, publications))])),
+    [processes, publications]
+  );
+
+  const draftFor = (process: LegalProcess): Draft => {
+    const digits = onlyDigits(process.processo);
+    const stored = byNumber.get(digits);
+    const suggestion = suggestions.get(digits);
+    return drafts[digits] ?? (stored
+      ? { data: stored.disponibilizacao, dias: stored.dias, tipo: stored.tipo }
+      : { data: availabilityDate(process) || '', dias: suggestion?.dias ?? DEFAULT_DEADLINE_DAYS, tipo: suggestion?.tipo });
+  };
+
+  const updateDraft = (process: LegalProcess, update: Partial<Draft>) => {
+    const digits = onlyDigits(process.processo);
+    setDrafts(prev => ({ ...prev, [digits]: { ...draftFor(process), ...update } }));
+  };
+
+  const canCompute = (draft: Draft) => !!draft.data && isValidDeadlineDays(draft.dias);
+
+  const compute = (process: LegalProcess) => {
+    const draft = draftFor(process);
+    return computeDeadline(process.processo, draft.data, draft.dias, calendar, draft.tipo);
+  };
+
+  const save = (targets: LegalProcess[]) => {
+    onSave(targets.map(compute));
+    setDrafts(prev => {
+      const next = { ...prev };
+      targets.forEach(p => delete next[onlyDigits(p.processo)]);
+      return next;
+    });
+  };
+
+  const pending = processes.filter(p => !byNumber.has(onlyDigits(p.processo)) && canCompute(draftFor(p)));
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-white p-8 rounded-4xl border border-slate-200 shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h3 className="text-lg font-black text-slate-900 tracking-tight">Prazos Processuais</h3>
+          <p className="text-xs text-slate-400 font-medium">
+            Dias úteis (CPC, art. 219): publicação no dia útil seguinte à disponibilização e contagem a partir do próximo dia útil (art. 224). Recesso de 20/12 a 20/01 (art. 220).
+          </p>
+          {!canPersist && <p className="text-xs text-amber-600 font-bold mt-1">Esta análise não está no histórico; os prazos calculados não serão salvos.</p>}
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => setShowCalendar(!showCalendar)} className="px-6 py-3 bg-white text-slate-700 text-xs font-black rounded-2xl border border-slate-200 hover:bg-slate-50 uppercase tracking-widest transition-all whitespace-nowrap">
+            Feriados ({calendar.length})
+          </button>
+          <button onClick={() => save(pending)} disabled={pending.length === 0} className="px-6 py-3 bg-indigo-600 text-white text-xs font-black rounded-2xl hover:bg-indigo-700 shadow-xl shadow-indigo-100 uppercase tracking-widest transition-all disabled:bg-slate-200 disabled:shadow-none whitespace-nowrap">
+            Calcular Pendentes ({pending.length})
+          </button>
+        </div>
+      </div>
+
+      {showCalendar && (
+        <div className="bg-white p-8 rounded-4xl border border-slate-200 shadow-sm">
+          <h3 className="text-xs font-black uppercase tracking-widest mb-4 text-slate-500">Calendário Forense</h3>
+          <CalendarEditor calendar={calendar} onChange={onCalendarChange} />
+        </div>
+      )}
+
+      <div className="bg-white rounded-4xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+        {processes.map(process => {
+          const digits = onlyDigits(process.processo);
+          const stored = byNumber.get(digits);
+          const suggestion = suggestions.get(digits);
+          const draft = draftFor(process);
+          const uf = lookupUf(process.processo);
+          return (
+            <div key={digits} className="p-6 flex flex-col lg:flex-row lg:items-center gap-4">
+              <div className="lg:w-72 min-w-0">
+                <code className="text-sm font-black text-slate-800">{process.processo}</code>
+                <p className="text-[10px] font-bold text-slate-400 truncate">{process.foro}{uf && ` • feriados de ${uf}`}</p>
+                {suggestion && <p className="text-[10px] font-black text-indigo-600">Sugestão: {suggestion.dias} dias ({suggestion.tipo})</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={draft.data}
+                  onChange={(e) => updateDraft(process, { data: e.target.value })}
+                  className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs text-slate-700"
+                  title="Data de disponibilização no DJE"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  list="deadline-options"
+                  value={draft.dias}
+                  onChange={(e) => updateDraft(process, { dias: parseInt(e.target.value, 10) || 0, tipo: undefined })}
+                  className="w-20 px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs text-slate-700"
+                  title="Prazo em dias úteis"
+                />
+                <span className="text-[10px] font-black text-slate-400 uppercase">dias</span>
+                <button onClick={() => save([process])} disabled={!canCompute(draft)} className="px-4 py-2 bg-indigo-50 text-indigo-700 text-[10px] font-black rounded-xl hover:bg-indigo-100 uppercase tracking-widest transition-all disabled:opacity-40">
+                  {stored ? 'Recalcular' : 'Calcular'}
+                </button>
+              </div>
+              <div className="flex-1 flex items-center justify-end gap-4">
+                {stored ? (
+                  <>
+                    <span className="text-[10px] text-slate-400 text-right">
+                      Publicação {formatDate(stored.publicacao)} • Início {formatDate(stored.inicio)}
+                      {stored.tipo && <span className="block">{stored.tipo}</span>}
+                    </span>
+                    <span className="text-right">
+                      <span className="block text-sm font-black text-red-600">{formatDate(stored.vencimento)}</span>
+                      <span className="text-[10px] font-bold text-slate-400">{weekdayName(stored.vencimento)}</span>
+                    </span>
+                    <button onClick={() => onRemove(process.processo)} className="text-slate-300 hover:text-red-500 transition-colors" title="Remover prazo">✕</button>
+                  </>
+                ) : (
+                  <span className="text-[10px] font-bold text-slate-300 uppercase tracking-widest">{draft.data ? 'Não calculado' : 'Informe a disponibilização'}</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <datalist id="deadline-options">
+        {DEADLINE_OPTIONS.map(days => <option key={days} value={days} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default DeadlinePanel;
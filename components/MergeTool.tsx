@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ComposedPage, WorkspaceFile } from '../types';
+import { composePdf, renderPdfThumbnails } from '../services/pdfService';
+
+interface MergeToolProps {
+  files: WorkspaceFile[];
+  onAddFiles: (files: File[]) => void;
+  onMerged: (blob: Blob, name: string, pageCount: number) => void;
+}
+
+const pageKey = (page: ComposedPage) => `${page.sourceId}:${page.page}`;
+
+const MergeTool: React.FC<MergeToolProps> = ({ files, onAddFiles, onMerged }) => {
+  const [sourceOrder, setSourceOrder] = useState<string[]>(() => files.filter(f => f.selected).map(f => f.id));
+  const [pages, setPages] = useState<ComposedPage[] | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [bookmarks, setBookmarks] = useState(true);
+  const [outputName, setOutputName] = useState('Documento Mesclado');
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const rendered = useRef<Set<string>>(new Set());
+  const mergeController = useRef<AbortController | null>(null);
+
+  const filesById = useMemo(() => new Map<string, WorkspaceFile>(files.map(f => [f.id, f])), [files]);
+  const orderedSources = useMemo(
+    () => sourceOrder.map(id => filesById.get(id)).filter((f): f is WorkspaceFile => !!f),
+    [sourceOrder, filesById]
+  );
+  // Mudanças de status no workspace recriam os objetos dos arquivos; as miniaturas só dependem de quais arquivos entram.
+  const sourceKey = useMemo(() => orderedSources.map(f => f.id).join('|'), [orderedSources]);
+  const latestSources = useRef(orderedSources);
+  latestSources.current = orderedSources;
+  const pagesLoaded = pages !== null;
+
+  // Fechar a ferramenta cancela a mesclagem em andamento.
+  useEffect(() => () => mergeController.current?.abort(), []);
+
+  // Arquivos removidos do workspace saem da ordem e da composição.
+  useEffect(() => {
+    setSourceOrder(prev => prev.filter(id => filesById.has(id)));
+    setPages(prev => prev ? prev.filter(p => filesById.has(p.sourceId)) : prev);
+  }, [files]);
+
+  // As miniaturas são geradas uma vez por arquivo, na ordem em que entram na composição.
+  useEffect(() => {
+    if (!pagesLoaded) return;
+    const controller = new AbortController();
+    const pending = latestSources.current.filter(f => !rendered.current.has(f.id));
+    (async () => {
+      for (const file of pending) {
+        if (controller.signal.aborted) return;
+        try {
+          await renderPdfThumbnails(file.blob, (page, url) => {
+            setThumbnails(prev => ({ ...prev, [`${file.id}:${page}`]: url }));
+          }, 0.25, controller.signal);
+          if (!controller.signal.aborted) rendered.current.add(file.id);
+        } catch (e) {
+          console.error('Erro ao gerar miniaturas', e);
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [pagesLoaded, sourceKey]);
+
+  const toggleSource = (id: string) => {
+    setSourceOrder(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const moveSource = (index: number, delta: number) => {
+    setSourceOrder(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const loadPages = () => {
+    setError(null);
+    setPages(orderedSources.flatMap(file =>
+      Array.from({ length: file.pageCount }, (_, idx) => ({ sourceId: file.id, page: idx + 1, rotation: 0 }))
+    ));
+  };
+
+  const movePage = (index: number, delta: number) => {
+    setPages(prev => {
+      if (!prev) return prev;
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const rotatePage = (index: number) => {
+    setPages(prev => prev && prev.map((p, idx) => idx === index ? { ...p, rotation: (p.rotation + 90) % 360 } : p));
+  };
+
+  const deletePage = (index: number) => {
+    setPages(prev => prev && prev.filter((_, idx) => idx !== index));
+  };
+
+  const handleMerge = async () => {
+    if (!pages || pages.length === 0) return;
+    const controller = new AbortController();
+    mergeController.current = controller;
+    setMerging(true);
+    setError(null);
+    try {
+      const sources = Array.from(new Set<string>(pages.map(p => p.sourceId)))
+        .map(id => filesById.get(id))
+        .filter((f): f is WorkspaceFile => !!f)
+        .map(f => ({ id: f.id, name: f.name, blob: f.blob }));
+      const blob = await composePdf(sources, pages, bookmarks, controller.signal);
+      if (controller.signal.aborted) return;
+      onMerged(blob, outputName.trim() || 'Documento Mesclado', pages.length);
+      setPages(null);
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      setError(err.message || 'Erro ao mesclar os PDFs.');
+    } finally {
+      if (mergeController.current === controller) mergeController.current = null;
+      if (!controller.signal.aborted) setMerging(false);
+    }
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const uploads = Array.from<File>(event.target.files || []).filter(f => f.type === 'application/pdf');
+    if (uploads.length > 0) onAddFiles(uploads);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in zoom-in-95 duration-500">
+      <section className="bg-white rounded-4xl p-10 border border-slate-100 shadow-2xl">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+          <div>
+            <h2 className="text-3xl font-black text-slate-900 tracking-tighter">Mesclar e Reordenar</h2>
+            <p className="text-sm text-slate-500 font-medium mt-1">Escolha os arquivos do workspace na ordem desejada e ajuste as páginas antes de gerar o novo PDF.</p>
+          </div>
+          <label className="px-6 py-3 bg-slate-900 text-white text-[10px] font-black rounded-xl hover:bg-black uppercase tracking-widest transition-all cursor-pointer text-center">
+            Adicionar PDFs
+            <input type="file" className="hidden" accept=".pdf" multiple onChange={handleUpload} />
+          </label>
+        </div>
+
+        {files.length === 0 ? (
+          <p className="text-sm text-slate-400 font-bold text-center py-10">O workspace está vazio. Adicione PDFs ou use o Divisor para criar partes.</p>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Arquivos do Workspace</h3>
+              <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                {files.map(file => (
+                  <li key={file.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-100 bg-slate-50">
+                    <input type="checkbox" checked={sourceOrder.includes(file.id)} onChange={() => toggleSource(file.id)} className="w-4 h-4 text-indigo-600 border-slate-300 rounded" />
+                    <span className="text-xs font-bold text-slate-700 truncate flex-1" title={file.name}>{file.name}</span>
+                    <span className="text-[10px] text-slate-400 font-bold">{file.pageCount} pág.</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Ordem de Mesclagem</h3>
+              {orderedSources.length === 0 ? (
+                <p className="text-xs text-slate-400 font-medium py-6">Marque ao menos um arquivo.</p>
+              ) : (
+                <ol className="space-y-2 max-h-80 overflow-y-auto pr-1">
+                  {orderedSources.map((file, idx) => (
+                    <li key={file.id} className="flex items-center gap-2 p-3 rounded-xl border border-indigo-100 bg-indigo-50/40">
+                      <span className="text-[10px] font-black text-indigo-600 w-5">{idx + 1}.</span>
+                      <span className="text-xs font-bold text-slate-700 truncate flex-1" title={file.name}>{file.name}</span>
+                      <button onClick={() => moveSource(idx, -1)} disabled={idx === 0} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Subir">▲</button>
+                      <button onClick={() => moveSource(idx, 1)} disabled={idx === orderedSources.length - 1} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Descer">▼</button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <button onClick={loadPages} disabled={orderedSources.length === 0} className="mt-4 w-full py-3 bg-indigo-600 text-white text-[10px] font-black rounded-xl hover:bg-indigo-700 uppercase tracking-widest transition-all disabled:bg-slate-200">
+                {pages ? 'Recarregar Páginas' : 'Carregar Páginas'}
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {pages && (
+        <section className="bg-white rounded-4xl p-10 border border-slate-100 shadow-2xl">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{pages.length} páginas no documento final</span>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                <input type="checkbox" checked={bookmarks} onChange={(e) => setBookmarks(e.target.checked)} className="w-4 h-4 text-indigo-600 border-slate-300 rounded" />
+                Marcador por arquivo
+              </label>
+              <input type="text" value={outputName} onChange={(e) => setOutputName(e.target.value)} className="px-3 py-2 text-xs font-bold text-slate-700 border border-slate-200 rounded-xl" placeholder="Nome do arquivo" />
+              <button onClick={handleMerge} disabled={merging || pages.length === 0} className="px-8 py-3 bg-indigo-600 text-white text-[10px] font-black rounded-xl hover:bg-indigo-700 uppercase tracking-widest transition-all disabled:bg-slate-200">
+                {merging ? 'Mesclando...' : 'Gerar PDF Mesclado'}
+              </button>
+            </div>
+          </div>
+          {error && <p className="mb-4 text-xs font-bold text-red-600">{error}</p>}
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
+            {pages.map((page, idx) => {
+              const source = filesById.get(page.sourceId);
+              const thumbnail = thumbnails[pageKey(page)];
+              return (
+                <div key={pageKey(page)} className="rounded-2xl border border-slate-100 bg-slate-50 p-2 flex flex-col gap-2">
+                  <div className="aspect-[3/4] bg-white rounded-lg flex items-center justify-center overflow-hidden">
+                    {thumbnail ? (
+                      <img src={thumbnail} alt={`Página ${page.page}`} className="max-w-full max-h-full transition-transform" style={{ transform: `rotate(${page.rotation}deg)` }} />
+                    ) : (
+                      <div className="animate-spin rounded-full h-6 w-6 border-2 border-indigo-100 border-t-indigo-600"></div>
+                    )}
+                  </div>
+                  <p className="text-[9px] font-bold text-slate-500 truncate" title={source?.name}>{idx + 1}. {source?.name} · p.{page.page}</p>
+                  <div className="flex justify-between">
+                    <button onClick={() => movePage(idx, -1)} disabled={idx === 0} className="px-2 py-1 text-xs text-slate-500 hover:text-indigo-600 disabled:opacity-30" title="Mover para trás">◀</button>
+                    <button onClick={() => rotatePage(idx)} className="px-2 py-1 text-xs text-slate-500 hover:text-indigo-600" title="Girar 90°">⟳</button>
+                    <button onClick={() => deletePage(idx)} className="px-2 py-1 text-xs text-slate-500 hover:text-red-600" title="Remover página">✕</button>
+                    <button onClick={() => movePage(idx, 1)} disabled={idx === pages.length - 1} className="px-2 py-1 text-xs text-slate-500 hover:text-indigo-600 disabled:opacity-30" title="Mover para frente">▶</button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default MergeTool;
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { renderPdfPage } from '../services/pdfService';
+
+interface PagePreviewProps {
+  blob?: Blob;
+  pagina: number;
+  processo: string;
+  trecho: string;
+  onClose: () => void;
+}
+
+const PagePreview: React.FC<PagePreviewProps> = ({ blob, pagina, processo, trecho, onClose }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImageUrl(null);
+    setError(null);
+    if (!blob) {
+      setError('O documento original não está mais disponível nesta sessão.');
+      return;
+    }
+    renderPdfPage(blob, pagina)
+      .then(url => { if (!cancelled) setImageUrl(url); })
+      .catch((err: any) => { if (!cancelled) setError(err.message || 'Não foi possível renderizar a página.'); });
+    return () => { cancelled = true; };
+  }, [blob, pagina]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-4xl shadow-2xl max-w-4xl w-full max-h-full flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <p className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">Página {pagina}</p>
+            <code className="text-sm font-black text-slate-800">{processo}</code>
+          </div>
+          <button onClick={onClose} className="p-2.5 hover:bg-slate-100 rounded-xl text-slate-500 transition-colors" title="Fechar">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+        <div className="px-8 py-4 bg-amber-50/60 border-b border-amber-100 text-xs text-slate-600 leading-relaxed">{trecho}</div>
+        <div className="flex-1 overflow-auto bg-slate-100 p-6 flex justify-center">
+          {error ? (
+            <p className="text-sm font-bold text-red-600 py-20">{error}</p>
+          ) : imageUrl ? (
+            <img src={imageUrl} alt={`Página ${pagina}`} className="shadow-xl bg-white max-w-full" />
+          ) : (
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-indigo-100 border-t-indigo-600 my-20"></div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PagePreview;
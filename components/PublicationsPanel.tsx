@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { DjePublication } from '../types';
+import { filterPublications, groupByLawyer, lawyerLabel, matchesLawyer } from '../services/djeService';
+
+interface PublicationsPanelProps {
+  publications: DjePublication[];
+  onExport: (publications: DjePublication[], query: string) => void;
+  onExportByLawyer: (query: string) => void;
+  onOpenPage: (publication: DjePublication, pagina: number) => void;
+}
+
+const PREVIEW_LENGTH = 280;
+
+const PublicationsPanel: React.FC<PublicationsPanelProps> = ({ publications, onExport, onExportByLawyer, onOpenPage }) => {
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const visible = useMemo(() => filterPublications(publications, query), [publications, query]);
+  const lawyers = useMemo(() => groupByLawyer(publications), [publications]);
+
+  const toggle = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-white p-8 rounded-4xl border border-slate-200 shadow-sm space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div className="flex gap-8">
+            <div>
+              <span className="block text-3xl font-black text-slate-800">{publications.length}</span>
+              <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Publicações</span>
+            </div>
+            <div>
+              <span className="block text-3xl font-black text-indigo-600">{lawyers.length}</span>
+              <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Advogados</span>
+            </div>
+            {query.trim() && (
+              <div>
+                <span className="block text-3xl font-black text-emerald-600">{visible.length}</span>
+                <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">No Filtro</span>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button onClick={() => onExport(visible, query)} disabled={visible.length === 0} className="px-6 py-3 bg-white text-slate-700 text-xs font-black rounded-2xl border border-slate-200 hover:bg-slate-50 uppercase tracking-widest transition-all disabled:opacity-50">
+              Exportar Lista (TXT)
+            </button>
+            <button onClick={() => onExportByLawyer(query)} disabled={visible.length === 0} className="px-6 py-3 bg-indigo-600 text-white text-xs font-black rounded-2xl hover:bg-indigo-700 shadow-xl shadow-indigo-100 uppercase tracking-widest transition-all disabled:bg-slate-200 disabled:shadow-none">
+              Exportar por Advogado
+            </button>
+          </div>
+        </div>
+
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Filtrar por número da OAB (ex: 123456/SP) ou nome do advogado"
+          className="w-full px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm text-slate-700 focus:ring-4 focus:ring-indigo-100 focus:bg-white outline-none transition-all"
+        />
+
+        {lawyers.length > 0 && (
+          <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+            {lawyers.map(({ lawyer, publications: own }) => (
+              <button
+                key={lawyer.oab || lawyer.nome}
+                onClick={() => setQuery(lawyer.oab || lawyer.nome)}
+                className="px-3 py-1 text-[10px] font-black text-slate-600 bg-slate-100 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 transition-colors"
+              >
+                {lawyerLabel(lawyer)} • {own.length}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-400 font-bold text-center">Nenhuma publicação para este filtro.</p>
+      ) : (
+        <ul className="space-y-4">
+          {visible.map(publication => {
+            const open = expanded.has(publication.id);
+            const long = publication.texto.length > PREVIEW_LENGTH;
+            return (
+              <li key={publication.id} className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-3">
+                  <code className="text-sm font-black text-slate-800">{publication.processo}</code>
+                  <span className="flex gap-1">
+                    {publication.paginas.map(pagina => (
+                      <button
+                        key={pagina}
+                        onClick={() => onOpenPage(publication, pagina)}
+                        className="px-2 py-0.5 text-[10px] font-black text-indigo-600 bg-indigo-50 rounded-md hover:bg-indigo-100 transition-colors"
+                      >
+                        p.{pagina}
+                      </button>
+                    ))}
+                  </span>
+                  <span className="flex flex-wrap gap-1 ml-auto">
+                    {publication.advogados.map(lawyer => (
+                      <span
+                        key={lawyer.oab || lawyer.nome}
+                        className={`px-2 py-0.5 text-[10px] font-black rounded-md ${query.trim() && matchesLawyer(lawyer, query) ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-50 text-slate-500'}`}
+                      >
+                        {lawyerLabel(lawyer)}
+                      </span>
+                    ))}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-600 leading-relaxed whitespace-pre-wrap break-words">
+                  {open || !long ? publication.texto : `${publication.texto.slice(0, PREVIEW_LENGTH)}…`}
+                </p>
+                {long && (
+                  <button onClick={() => toggle(publication.id)} className="mt-2 text-[10px] font-black text-indigo-600 uppercase tracking-widest hover:underline">
+                    {open ? 'Recolher' : 'Texto integral'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PublicationsPanel;
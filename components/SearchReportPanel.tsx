@@ -0,0 +1,119 @@
+import React from 'react';
+import { LegalProcess, NearMatch, ProcessOccurrence, SearchReport } from '../types';
+
+interface SearchReportPanelProps {
+  report: SearchReport;
+  onExport: () => void;
+  onOpenPage: (processo: string, occurrence: ProcessOccurrence) => void;
+  onConfirmNearMatch: (match: NearMatch) => void;
+  onRejectNearMatch: (match: NearMatch) => void;
+}
+
+const ProcessList: React.FC<{ processes: LegalProcess[]; onOpenPage: SearchReportPanelProps['onOpenPage'] }> = ({ processes, onOpenPage }) => (
+  <ul className="divide-y divide-slate-100">
+    {processes.map(p => (
+      <li key={p.processo} className="py-2.5 flex flex-wrap items-center gap-x-4 gap-y-1">
+        <code className="text-sm font-black text-slate-800">{p.processo}</code>
+        <span className="text-xs font-bold text-slate-500">{p.foro}</span>
+        <span className="flex gap-1 ml-auto">
+          {/* Na leitura por OCR o modelo devolve só o número, sem a página em que o leu. */}
+          {!p.ocorrencias?.length && <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Página não identificada</span>}
+          {(p.ocorrencias || []).map(oc => (
+            <button
+              key={oc.pagina}
+              onClick={() => onOpenPage(p.processo, oc)}
+              className="px-2 py-0.5 text-[10px] font-black text-indigo-600 bg-indigo-50 rounded-md hover:bg-indigo-100 transition-colors"
+              title={oc.trecho}
+            >
+              p.{oc.pagina}
+            </button>
+          ))}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+const Section: React.FC<{ title: string; count: number; tone: string; children: React.ReactNode }> = ({ title, count, tone, children }) => (
+  <div className="bg-white p-8 rounded-4xl border border-slate-200 shadow-sm">
+    <h3 className={`text-xs font-black uppercase tracking-widest mb-4 ${tone}`}>{title} ({count})</h3>
+    {count === 0 ? <p className="text-xs text-slate-400 font-medium">Nenhum.</p> : children}
+  </div>
+);
+
+const SearchReportPanel: React.FC<SearchReportPanelProps> = ({ report, onExport, onOpenPage, onConfirmNearMatch, onRejectNearMatch }) => (
+  <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+    <div className="bg-white p-8 rounded-4xl border border-slate-200 shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-6">
+      <div className="flex gap-8">
+        <div>
+          <span className="block text-3xl font-black text-slate-800">{report.requested.length}</span>
+          <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Pedidos</span>
+        </div>
+        <div>
+          <span className="block text-3xl font-black text-emerald-600">{report.found.length}</span>
+          <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Encontrados</span>
+        </div>
+        <div>
+          <span className="block text-3xl font-black text-red-500">{report.notFound.length}</span>
+          <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Não Encontrados</span>
+        </div>
+        <div>
+          <span className="block text-3xl font-black text-amber-500">{report.unrequested.length}</span>
+          <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Não Pedidos</span>
+        </div>
+      </div>
+      <button onClick={onExport} className="px-8 py-3 bg-indigo-600 text-white text-xs font-black rounded-2xl hover:bg-indigo-700 shadow-xl shadow-indigo-100 uppercase tracking-widest transition-all">
+        Exportar Relatório (TXT)
+      </button>
+    </div>
+
+    <Section title="Encontrados" count={report.found.length} tone="text-emerald-600">
+      <ProcessList processes={report.found} onOpenPage={onOpenPage} />
+    </Section>
+
+    <Section title="Não encontrados no documento" count={report.notFound.length} tone="text-red-500">
+      <ul className="grid sm:grid-cols-2 gap-2">
+        {report.notFound.map(n => <li key={n}><code className="text-sm font-black text-slate-700">{n}</code></li>)}
+      </ul>
+    </Section>
+
+    {report.nearMatches && report.nearMatches.length > 0 && (
+      <Section title="Possíveis correspondências com avaria de OCR" count={report.nearMatches.length} tone="text-indigo-600">
+        <ul className="divide-y divide-slate-100">
+          {report.nearMatches.map(match => (
+            <li key={match.id} className="py-3 flex flex-col md:flex-row md:items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <code className="text-sm font-black text-slate-800">{match.requested}</code>
+                  <span className="text-xs text-slate-400">no texto:</span>
+                  <code className="text-sm font-bold text-amber-700 bg-amber-50 px-1.5 rounded">{match.original}</code>
+                  <span className="text-[10px] font-black text-indigo-600">{Math.round(match.similarity * 100)}%</span>
+                  {match.pagina && <span className="text-[10px] font-black text-slate-400">p.{match.pagina}</span>}
+                  {match.checkDigitsOk && <span className="text-[10px] font-black text-emerald-600" title="O número lido tem dígito verificador válido">DV confere</span>}
+                </div>
+                {match.trecho && <p className="text-[11px] text-slate-400 mt-1 truncate" title={match.trecho}>{match.trecho}</p>}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => onConfirmNearMatch(match)} className="px-4 py-2 bg-emerald-50 text-emerald-700 text-[10px] font-black rounded-xl hover:bg-emerald-100 uppercase tracking-widest transition-all">Confirmar</button>
+                <button onClick={() => onRejectNearMatch(match)} className="px-4 py-2 bg-slate-50 text-slate-500 text-[10px] font-black rounded-xl hover:bg-slate-100 uppercase tracking-widest transition-all">Rejeitar</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </Section>
+    )}
+
+    <Section title="Encontrados sem terem sido pedidos" count={report.unrequested.length} tone="text-amber-600">
+      <ProcessList processes={report.unrequested} onOpenPage={onOpenPage} />
+    </Section>
+
+    {report.unparsed.length > 0 && (
+      <div className="p-6 rounded-3xl bg-amber-50 border border-amber-100">
+        <p className="text-[10px] font-black text-amber-700 uppercase tracking-widest mb-2">Entradas da lista sem número CNJ reconhecível</p>
+        <p className="text-xs text-amber-800 break-words">{report.unparsed.join(' • ')}</p>
+      </div>
+    )}
+  </div>
+);
+
+export default SearchReportPanel;
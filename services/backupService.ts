@@ -0,0 +1,185 @@
+import { AppSettings, ForoAliases, HistoryItem, WorkspaceFile } from "../types";
+import { createZip, readZip, ZipEntry } from "./zipService";
+
+export const BACKUP_FORMAT = 'legal-filter-pro-backup';
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_NAME = 'backup.json';
+const DOCUMENTS_DIR = 'documentos/';
+
+// A chave de API nunca sai do navegador em que foi digitada.
+export type BackupSettings = Omit<AppSettings, 'openai'> & { openai: Omit<AppSettings['openai'], 'apiKey'> };
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  history: HistoryItem[];
+  aliases: ForoAliases;
+  settings: BackupSettings;
+  documents: string[];
+}
+
+export interface BackupBundle {
+  manifest: BackupManifest;
+  documents: Record<string, Blob>;
+}
+
+export interface BackupData {
+  history: HistoryItem[];
+  aliases: ForoAliases;
+  settings: AppSettings;
+  documents: Record<string, Blob>;
+  workspace?: WorkspaceFile[];
+}
+
+export type DuplicateReason = 'id' | 'content';
+
+export interface ImportPreview {
+  exportedAt: number;
+  added: HistoryItem[];
+  renamed: HistoryItem[];
+  duplicates: { item: HistoryItem; reason: DuplicateReason }[];
+  aliasesAdded: ForoAliases;
+  aliasConflicts: { variant: string; current: string; incoming: string }[];
+  documents: Record<string, Blob>;
+  settings: BackupSettings;
+  settingsChanged: string[];
+}
+
+const stripSecrets = (settings: AppSettings): BackupSettings => {
+  const { apiKey, ...openai } = settings.openai;
+  return { ...settings, openai };
+};
+
+// Análises em lote apontam para o arquivo do workspace; as demais, para o original guardado em `documents`.
+const sourceBlob = (data: BackupData, id: string) => data.documents[id] || data.workspace?.find(file => file.id === id)?.blob;
+
+export const createBackup = async (data: BackupData, includeDocuments: boolean): Promise<Blob> => {
+  const documentIds = includeDocuments
+    ? Array.from(new Set<string>(data.history.map(item => item.sourceId).filter((id): id is string => !!id && !!sourceBlob(data, id))))
+    : [];
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    history: data.history,
+    aliases: data.aliases,
+    settings: stripSecrets(data.settings),
+    documents: documentIds,
+  };
+  const json = JSON.stringify(manifest, null, 2);
+  if (!includeDocuments) return new Blob([json], { type: 'application/json' });
+
+  const entries: ZipEntry[] = [{ name: MANIFEST_NAME, data: json }];
+  for (const id of documentIds) {
+    entries.push({ name: `${DOCUMENTS_DIR}${id}.pdf`, data: new Uint8Array(await sourceBlob(data, id)!.arrayBuffer()) });
+  }
+  return createZip(entries);
+};
+
+// Versões futuras do formato entram aqui, convertendo o manifesto passo a passo até a versão atual.
+const migrations: Record<number, (manifest: any) => any> = {};
+
+const parseManifest = (json: string): BackupManifest => {
+  let manifest: any;
+  try {
+    manifest = JSON.parse(json);
+  } catch (e) {
+    throw new Error('O arquivo de backup não contém um JSON válido.');
+  }
+  if (manifest?.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') {
+    throw new Error('O arquivo não é um backup do LegalFilter Pro.');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(`Backup gerado por uma versão mais nova do aplicativo (formato ${manifest.version}).`);
+  }
+  for (let version = manifest.version; version < BACKUP_VERSION; version++) {
+    manifest = migrations[version]?.(manifest) ?? manifest;
+  }
+  if (!Array.isArray(manifest.history)) throw new Error('O backup não contém um histórico válido.');
+  return { ...manifest, version: BACKUP_VERSION, aliases: manifest.aliases || {}, documents: manifest.documents || [] };
+};
+
+const isZip = async (file: Blob) => {
+  const signature = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return signature[0] === 0x50 && signature[1] === 0x4b && signature[2] === 0x03 && signature[3] === 0x04;
+};
+
+export const readBackup = async (file: Blob): Promise<BackupBundle> => {
+  if (!(await isZip(file))) {
+    return { manifest: parseManifest(await file.text()), documents: {} };
+  }
+  const files = await readZip(file);
+  if (!files[MANIFEST_NAME]) throw new Error(`O pacote ZIP não contém ${MANIFEST_NAME}.`);
+  const manifest = parseManifest(new TextDecoder().decode(files[MANIFEST_NAME]));
+  const documents: Record<string, Blob> = {};
+  manifest.documents.forEach(id => {
+    const data = files[`${DOCUMENTS_DIR}${id}.pdf`];
+    if (data) documents[id] = new Blob([data], { type: 'application/pdf' });
+  });
+  return { manifest, documents };
+};
+
+// Mesmo documento com os mesmos resultados, independentemente da ordem de foros e processos.
+const contentKey = (item: HistoryItem) => JSON.stringify([
+  item.name,
+  Object.keys(item.results).sort().map(foro => [foro, [...item.results[foro]].sort()]),
+]);
+
+const changedSettings = (current: AppSettings, incoming: BackupSettings) => {
+  const currentPublic = stripSecrets(current) as Record<string, unknown>;
+  return Object.entries(incoming)
+    .filter(([key, value]) => JSON.stringify(currentPublic[key]) !== JSON.stringify(value))
+    .map(([key]) => key);
+};
+
+export const previewImport = (bundle: BackupBundle, current: BackupData): ImportPreview => {
+  const byId = new Map<string, HistoryItem>(current.history.map(item => [item.id, item]));
+  const contents = new Set<string>(current.history.map(contentKey));
+  const preview: ImportPreview = {
+    exportedAt: bundle.manifest.exportedAt,
+    added: [],
+    renamed: [],
+    duplicates: [],
+    aliasesAdded: {},
+    aliasConflicts: [],
+    documents: {},
+    settings: bundle.manifest.settings,
+    settingsChanged: bundle.manifest.settings ? changedSettings(current.settings, bundle.manifest.settings) : [],
+  };
+
+  bundle.manifest.history.forEach(item => {
+    const key = contentKey(item);
+    if (contents.has(key)) {
+      preview.duplicates.push({ item, reason: byId.has(item.id) ? 'id' : 'content' });
+      return;
+    }
+    contents.add(key);
+    // Mesmo id com conteúdo diferente: entra como nova análise para não sobrescrever a existente.
+    if (byId.has(item.id)) preview.renamed.push({ ...item, id: crypto.randomUUID() });
+    else preview.added.push(item);
+    // Os PDFs restaurados entram como originais, para que o `sourceId` continue resolvendo sem o workspace de origem.
+    if (item.sourceId && bundle.documents[item.sourceId] && !sourceBlob(current, item.sourceId)) {
+      preview.documents[item.sourceId] = bundle.documents[item.sourceId];
+    }
+  });
+
+  Object.entries(bundle.manifest.aliases).forEach(([variant, canonical]) => {
+    const existing = current.aliases[variant];
+    if (existing === undefined) preview.aliasesAdded[variant] = canonical;
+    else if (existing !== canonical) preview.aliasConflicts.push({ variant, current: existing, incoming: canonical });
+  });
+
+  return preview;
+};
+
+// Apelidos em conflito mantêm o valor atual; as configurações só são trocadas quando pedido.
+export const applyImport = (preview: ImportPreview, current: BackupData, applySettings: boolean): BackupData => ({
+  history: [...current.history, ...preview.added, ...preview.renamed].sort((a, b) => b.timestamp - a.timestamp),
+  aliases: { ...current.aliases, ...preview.aliasesAdded },
+  documents: { ...current.documents, ...preview.documents },
+  settings: applySettings && preview.settings
+    ? { ...current.settings, ...preview.settings, openai: { ...current.settings.openai, ...preview.settings.openai } }
+    : current.settings,
+});
@@ -0,0 +1,88 @@
+import { ForoAliases, PlannedPart } from "../types";
+import { countCnjNumbers } from "./cnjService";
+import { lookupCourt } from "./courtService";
+import { canonicalizeForo } from "./foroService";
+
+export interface AmbiguousPage {
+  page: number;
+  candidates: string[];
+  trecho: string;
+}
+
+export interface BoundaryPlan {
+  parts: PlannedPart[];
+  ambiguous: AmbiguousPage[];
+  processes: string[];
+  unresolved: number;
+}
+
+// Escolha manual que exclui a página de todas as partes.
+export const DISCARD_PAGE = '';
+
+const TRECHO_LENGTH = 160;
+
+const pageSnippet = (text: string) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > TRECHO_LENGTH ? `${clean.slice(0, TRECHO_LENGTH)}…` : clean;
+};
+
+export const boundaryPartName = (processo: string, aliases: ForoAliases = {}) => {
+  const foro = lookupCourt(processo)?.foro;
+  return foro ? `${processo} - ${canonicalizeForo(foro, aliases)}` : processo;
+};
+
+// Percorre as páginas mantendo o processo corrente: páginas sem número continuam o processo anterior,
+// e um número novo só abre outra parte quando aparece na página mais vezes que o corrente e que os demais.
+// Páginas sem decisão (empate entre números, ou sem número antes do primeiro processo) vão para revisão,
+// e as escolhas em `manual` (página -> número ou DISCARD_PAGE) valem apenas para essas páginas.
+export const planProcessBoundaries = (
+  pages: string[],
+  aliases: ForoAliases = {},
+  manual: Record<number, string> = {}
+): BoundaryPlan => {
+  const ambiguous: AmbiguousPage[] = [];
+  const assigned = new Map<string, number[]>();
+  let current: string | null = null;
+  let unresolved = 0;
+
+  const assign = (processo: string, page: number) => {
+    if (!assigned.has(processo)) assigned.set(processo, []);
+    assigned.get(processo)!.push(page);
+  };
+
+  pages.forEach((text, idx) => {
+    const page = idx + 1;
+    const ranked = Object.entries(countCnjNumbers(text)).sort((a, b) => b[1] - a[1]);
+
+    const currentCount = ranked.find(([processo]) => processo === current)?.[1] ?? 0;
+    if (current && currentCount > 0 && currentCount >= ranked[0][1]) {
+      assign(current, page);
+      return;
+    }
+    if (ranked.length === 0 && current) {
+      assign(current, page);
+      return;
+    }
+    if (ranked.length === 1 || (ranked.length > 1 && ranked[0][1] > ranked[1][1])) {
+      current = ranked[0][0];
+      assign(current, page);
+      return;
+    }
+
+    ambiguous.push({ page, candidates: ranked.map(([processo]) => processo), trecho: pageSnippet(text) });
+    const choice = manual[page];
+    if (choice === undefined) {
+      unresolved++;
+    } else if (choice !== DISCARD_PAGE) {
+      current = choice;
+      assign(choice, page);
+    }
+  });
+
+  const parts = Array.from(assigned.entries()).map(([processo, partPages]) => ({
+    name: boundaryPartName(processo, aliases),
+    pages: partPages,
+  }));
+
+  return { parts, ambiguous, processes: Array.from(assigned.keys()), unresolved };
+};
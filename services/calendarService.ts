@@ -0,0 +1,160 @@
+import { CourtHoliday } from "../types";
+
+// Calendário forense padrão: feriados nacionais, os feriados da Justiça Federal do art. 62 da Lei 5.010/66 (o período de
+// 20/12 a 06/01 já está coberto pelo recesso) e datas magnas estaduais.
+// É só o ponto de partida; o usuário pode incluir feriados municipais e remover os que não valem no seu tribunal.
+export const DEFAULT_HOLIDAYS: CourtHoliday[] = [
+  { id: 'confraternizacao', nome: 'Confraternização Universal', data: '01-01' },
+  { id: 'carnaval-segunda', nome: 'Carnaval (segunda-feira)', data: 'P-48' },
+  { id: 'carnaval-terca', nome: 'Carnaval (terça-feira)', data: 'P-47' },
+  { id: 'quarta-santa', nome: 'Quarta-feira Santa', data: 'P-4' },
+  { id: 'quinta-santa', nome: 'Quinta-feira Santa', data: 'P-3' },
+  { id: 'sexta-santa', nome: 'Sexta-feira da Paixão', data: 'P-2' },
+  { id: 'tiradentes', nome: 'Tiradentes', data: '04-21' },
+  { id: 'trabalho', nome: 'Dia do Trabalho', data: '05-01' },
+  { id: 'corpus-christi', nome: 'Corpus Christi', data: 'P+60' },
+  { id: 'cursos-juridicos', nome: 'Criação dos Cursos Jurídicos (Dia do Advogado)', data: '08-11' },
+  { id: 'independencia', nome: 'Independência do Brasil', data: '09-07' },
+  { id: 'aparecida', nome: 'Nossa Senhora Aparecida', data: '10-12' },
+  { id: 'todos-santos', nome: 'Todos os Santos', data: '11-01' },
+  { id: 'finados', nome: 'Finados', data: '11-02' },
+  { id: 'republica', nome: 'Proclamação da República', data: '11-15' },
+  { id: 'consciencia-negra', nome: 'Dia Nacional de Zumbi e da Consciência Negra', data: '11-20' },
+  { id: 'justica', nome: 'Dia da Justiça', data: '12-08' },
+  { id: 'natal', nome: 'Natal', data: '12-25' },
+  { id: 'ac-estado', nome: 'Aniversário do Acre', data: '06-15', uf: 'AC' },
+  { id: 'al-emancipacao', nome: 'Emancipação Política de Alagoas', data: '09-16', uf: 'AL' },
+  { id: 'am-elevacao', nome: 'Elevação do Amazonas a Província', data: '09-05', uf: 'AM' },
+  { id: 'ap-sao-jose', nome: 'Dia de São José', data: '03-19', uf: 'AP' },
+  { id: 'ba-independencia', nome: 'Independência da Bahia', data: '07-02', uf: 'BA' },
+  { id: 'ce-sao-jose', nome: 'Dia de São José', data: '03-19', uf: 'CE' },
+  { id: 'ce-data-magna', nome: 'Data Magna do Ceará', data: '03-25', uf: 'CE' },
+  { id: 'df-evangelico', nome: 'Dia do Evangélico', data: '11-30', uf: 'DF' },
+  { id: 'ma-adesao', nome: 'Adesão do Maranhão à Independência', data: '07-28', uf: 'MA' },
+  { id: 'ms-criacao', nome: 'Criação do Estado de Mato Grosso do Sul', data: '10-11', uf: 'MS' },
+  { id: 'pa-adesao', nome: 'Adesão do Pará à Independência', data: '08-15', uf: 'PA' },
+  { id: 'pb-fundacao', nome: 'Fundação do Estado da Paraíba', data: '08-05', uf: 'PB' },
+  { id: 'pe-revolucao', nome: 'Revolução Pernambucana', data: '03-06', uf: 'PE' },
+  { id: 'pi-dia', nome: 'Dia do Piauí', data: '10-19', uf: 'PI' },
+  { id: 'pr-emancipacao', nome: 'Emancipação Política do Paraná', data: '12-19', uf: 'PR' },
+  { id: 'rj-sao-jorge', nome: 'Dia de São Jorge', data: '04-23', uf: 'RJ' },
+  { id: 'rn-martires', nome: 'Mártires de Cunhaú e Uruaçu', data: '10-03', uf: 'RN' },
+  { id: 'ro-criacao', nome: 'Criação do Estado de Rondônia', data: '01-04', uf: 'RO' },
+  { id: 'rr-criacao', nome: 'Criação do Estado de Roraima', data: '10-05', uf: 'RR' },
+  { id: 'rs-farroupilha', nome: 'Revolução Farroupilha', data: '09-20', uf: 'RS' },
+  { id: 'sc-data-magna', nome: 'Data Magna de Santa Catarina', data: '08-11', uf: 'SC' },
+  { id: 'se-emancipacao', nome: 'Emancipação Política de Sergipe', data: '07-08', uf: 'SE' },
+  { id: 'sp-revolucao', nome: 'Revolução Constitucionalista', data: '07-09', uf: 'SP' },
+  { id: 'to-criacao', nome: 'Criação do Estado do Tocantins', data: '10-05', uf: 'TO' },
+];
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const BR_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIso = (date: Date) => `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+const fromIso = (iso: string) => {
+  const [, year, month, day] = iso.match(ISO_DATE)!;
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+};
+
+// Aceita "AAAA-MM-DD" (com ou sem horário) e "DD/MM/AAAA"; datas inexistentes, como 31/02, são rejeitadas.
+export const parseDate = (value?: string): string | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const br = trimmed.match(BR_DATE);
+  const iso = br ? `${br[3]}-${pad(Number(br[2]))}-${pad(Number(br[1]))}` : trimmed.slice(0, 10);
+  if (!ISO_DATE.test(iso)) return null;
+  return toIso(fromIso(iso)) === iso ? iso : null;
+};
+
+export const formatDate = (iso: string) => {
+  const match = iso.match(ISO_DATE);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : iso;
+};
+
+export const addDays = (iso: string, days: number) => {
+  const date = fromIso(iso);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIso(date);
+};
+
+const WEEKDAYS = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+export const weekdayName = (iso: string) => WEEKDAYS[fromIso(iso).getUTCDay()];
+
+// Domingo de Páscoa pelo algoritmo de Meeus/Jones/Butcher (calendário gregoriano).
+const easter = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const holidayDate = (holiday: CourtHoliday, year: number): string | null => {
+  const easterOffset = holiday.data.match(/^P([+-]\d+)$/);
+  if (easterOffset) return addDays(easter(year), Number(easterOffset[1]));
+  if (/^\d{2}-\d{2}$/.test(holiday.data)) return parseDate(`${year}-${holiday.data}`);
+  return holiday.data.startsWith(`${year}-`) ? parseDate(holiday.data) : null;
+};
+
+export const isValidHolidayDate = (data: string) =>
+  /^P[+-]\d+$/.test(data) || (/^\d{2}-\d{2}$/.test(data) && !!parseDate(`2024-${data}`)) || !!parseDate(data);
+
+// "25/12" vira feriado anual e "25/12/2025" vale só naquele ano.
+export const parseHolidayInput = (value: string): string | null => {
+  const trimmed = value.trim();
+  const yearly = trimmed.match(/^(\d{1,2})\/(\d{1,2})$/);
+  const data = yearly ? `${pad(Number(yearly[2]))}-${pad(Number(yearly[1]))}` : parseDate(trimmed);
+  return data && isValidHolidayDate(data) ? data : null;
+};
+
+export const describeHolidayDate = (data: string) => {
+  const easterOffset = data.match(/^P([+-]\d+)$/);
+  if (easterOffset) return `Páscoa ${easterOffset[1]} dias`;
+  if (/^\d{2}-\d{2}$/.test(data)) return `${data.slice(3)}/${data.slice(0, 2)} (anual)`;
+  return formatDate(data);
+};
+
+// CPC, art. 220: suspensão dos prazos de 20 de dezembro a 20 de janeiro, inclusive.
+export const isRecess = (iso: string) => {
+  const month = iso.slice(5, 7);
+  const day = Number(iso.slice(8, 10));
+  return (month === '12' && day >= 20) || (month === '01' && day <= 20);
+};
+
+// Motivo pelo qual a data não é dia útil, ou null quando é.
+export const nonBusinessReason = (iso: string, calendar: CourtHoliday[], uf?: string): string | null => {
+  const weekday = fromIso(iso).getUTCDay();
+  if (weekday === 0 || weekday === 6) return weekdayName(iso);
+  if (isRecess(iso)) return 'recesso forense';
+  const year = Number(iso.slice(0, 4));
+  const holiday = calendar.find(h => (!h.uf || h.uf === uf) && holidayDate(h, year) === iso);
+  return holiday ? holiday.nome : null;
+};
+
+export const isBusinessDay = (iso: string, calendar: CourtHoliday[], uf?: string) =>
+  nonBusinessReason(iso, calendar, uf) === null;
+
+// O recesso dura 32 dias; qualquer sequência maior sem dia útil indica calendário inconsistente.
+const MAX_NON_BUSINESS_RUN = 60;
+
+// Primeiro dia útil estritamente posterior à data.
+export const nextBusinessDay = (iso: string, calendar: CourtHoliday[], uf?: string) => {
+  let date = addDays(iso, 1);
+  for (let i = 0; i < MAX_NON_BUSINESS_RUN && !isBusinessDay(date, calendar, uf); i++) date = addDays(date, 1);
+  return date;
+};
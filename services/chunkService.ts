@@ -0,0 +1,113 @@
+import { ExtractionResult, LegalProcess } from "../types";
+import { FORO_NAO_IDENTIFICADO, onlyDigits } from "./cnjService";
+
+export interface TextChunk {
+  index: number;
+  startPage: number;
+  endPage: number;
+  text: string;
+}
+
+// Aproximação de 4 caracteres por token, suficiente para manter cada chamada longe do limite de contexto.
+const CHARS_PER_TOKEN = 4;
+export const DEFAULT_CHUNK_TOKENS = 15000;
+export const DEFAULT_OVERLAP_CHARS = 400;
+export const DEFAULT_CHUNK_CONCURRENCY = 3;
+
+// Agrupa páginas consecutivas até o orçamento de tokens; páginas maiores que o orçamento são fatiadas.
+// Cada bloco recebe o final do anterior, para que números cortados na fronteira apareçam inteiros em algum bloco.
+export const chunkPages = (
+  pages: string[],
+  maxTokens = DEFAULT_CHUNK_TOKENS,
+  overlapChars = DEFAULT_OVERLAP_CHARS
+): TextChunk[] => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const chunks: TextChunk[] = [];
+  let current = '';
+  let startPage = 1;
+
+  const flush = (endPage: number) => {
+    if (!current.trim()) return;
+    const previous = chunks[chunks.length - 1];
+    const overlap = previous ? previous.text.slice(-overlapChars) : '';
+    chunks.push({ index: chunks.length, startPage, endPage, text: overlap + current });
+    current = '';
+  };
+
+  pages.forEach((pageText, idx) => {
+    const pageNumber = idx + 1;
+    const page = pageText + '\n';
+
+    if (current && current.length + page.length > maxChars) {
+      flush(pageNumber - 1);
+    }
+    if (!current) startPage = pageNumber;
+
+    if (page.length > maxChars) {
+      for (let offset = 0; offset < page.length; offset += maxChars) {
+        current = page.slice(offset, offset + maxChars);
+        flush(pageNumber);
+        startPage = pageNumber;
+      }
+      return;
+    }
+
+    current += page;
+  });
+  flush(pages.length);
+
+  return chunks;
+};
+
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runner = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runner));
+  return results;
+};
+
+const DETAIL_KEYS = ['vara', 'classe', 'assunto', 'partes', 'advogados', 'dataPublicacao'] as const;
+
+// Um bloco pode trazer as partes e outro a vara do mesmo processo; o que faltar em um é completado pelo outro.
+const fillDetails = (target: LegalProcess, source: LegalProcess): LegalProcess => {
+  const filled = { ...target };
+  DETAIL_KEYS.forEach(key => {
+    if (filled[key] === undefined && source[key] !== undefined) (filled as Record<string, unknown>)[key] = source[key];
+  });
+  return filled;
+};
+
+// Remove duplicatas entre blocos pelo número; um foro identificado prevalece sobre "Foro não identificado".
+export const mergeExtractionResults = (results: ExtractionResult[]): ExtractionResult => {
+  const merged = new Map<string, LegalProcess>();
+  const warnings = results.flatMap(result => result.warnings || []);
+
+  results.forEach(result => {
+    (result.processes || []).forEach(p => {
+      const key = onlyDigits(p.processo) || p.processo;
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, p);
+      } else if (existing.foro === FORO_NAO_IDENTIFICADO && p.foro && p.foro !== FORO_NAO_IDENTIFICADO) {
+        merged.set(key, fillDetails(p, existing));
+      } else {
+        merged.set(key, fillDetails(existing, p));
+      }
+    });
+  });
+
+  const processes = Array.from(merged.values());
+  return warnings.length > 0 ? { processes, warnings } : { processes };
+};
@@ -0,0 +1,229 @@
+import { CnjValidation, GroupedProcesses, LegalProcess, ProcessOccurrence } from "../types";
+
+export const FORO_NAO_IDENTIFICADO = 'Foro não identificado';
+
+// Separador tolerado entre dígitos de um mesmo bloco: espaço solto ou hifenização de quebra de linha ("02- 91").
+const D = '\\d(?:[ ]?-[ ](?=\\d)|[ ](?=\\d))?';
+// Separador entre blocos do padrão CNJ; ausente quando o número vem sem pontuação.
+const SEP = '[ ]?[-.]?[ ]?';
+
+const block = (size: number) => `(?:${D}){${size - 1}}\\d`;
+
+const CNJ_PATTERN = new RegExp(
+  `(?<!\\d)(${block(7)})${SEP}(${block(2)})${SEP}(${block(4)})${SEP}(\\d)${SEP}(${block(2)})${SEP}(${block(4)})(?!\\d)`,
+  'g'
+);
+
+const normalizeWhitespace = (text: string) =>
+  text
+    .replace(/\u00AD/g, '')
+    .replace(/[\u2010-\u2015\u2212]/g, '-')
+    .replace(/\s+/g, ' ');
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+export const formatCnj = (digits: string) =>
+  `${digits.slice(0, 7)}-${digits.slice(7, 9)}.${digits.slice(9, 13)}.${digits.slice(13, 14)}.${digits.slice(14, 16)}.${digits.slice(16, 20)}`;
+
+const isPlausible = (digits: string) => {
+  const year = parseInt(digits.slice(9, 13), 10);
+  const segment = digits[13];
+  return year >= 1900 && year <= new Date().getFullYear() + 1 && segment !== '0';
+};
+
+// Retorna o número no formato CNJ quando a string contém exatamente um número de 20 dígitos plausível.
+export const normalizeCnj = (value: string): string | null => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 20 || !isPlausible(digits)) return null;
+  return formatCnj(digits);
+};
+
+const matchCnjDigits = (text: string): string[] =>
+  Array.from(normalizeWhitespace(text).matchAll(CNJ_PATTERN))
+    .map(match => onlyDigits(match.slice(1).join('')))
+    .filter(digits => digits.length === 20 && isPlausible(digits));
+
+export const extractCnjNumbers = (text: string): string[] =>
+  Array.from(new Set(matchCnjDigits(text))).map(formatCnj);
+
+// Quantas vezes cada número aparece no texto, pela forma formatada.
+export const countCnjNumbers = (text: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  matchCnjDigits(text).forEach(digits => {
+    const formatted = formatCnj(digits);
+    counts[formatted] = (counts[formatted] || 0) + 1;
+  });
+  return counts;
+};
+
+export interface ParsedSearchList {
+  numbers: string[];
+  unparsed: string[];
+}
+
+// Cada linha (ou trecho entre vírgulas e ponto e vírgula) é uma entrada; pontuação e espaços dentro do número não importam.
+export const parseSearchList = (list: string): ParsedSearchList => {
+  const numbers = new Set<string>();
+  const unparsed: string[] = [];
+  list.split(/[\r\n,;]+/).map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const direct = normalizeCnj(entry);
+    const found = direct ? [direct] : extractCnjNumbers(entry);
+    if (found.length === 0) unparsed.push(entry);
+    found.forEach(n => numbers.add(n));
+  });
+  return { numbers: Array.from(numbers), unparsed };
+};
+
+// Mantém só os números pedidos na lista; lista vazia não filtra nada.
+export const filterBySearchList = <T extends { processo: string }>(items: T[], searchList?: string): T[] => {
+  if (!searchList || !searchList.trim()) return items;
+  const wanted = new Set(parseSearchList(searchList).numbers.map(onlyDigits));
+  return items.filter(item => wanted.has(onlyDigits(item.processo)));
+};
+
+export const extractCnjProcesses = (text: string, searchList?: string): LegalProcess[] =>
+  filterBySearchList(extractCnjNumbers(text).map(processo => ({ foro: FORO_NAO_IDENTIFICADO, processo })), searchList);
+
+const SNIPPET_RADIUS = 90;
+const MAX_OCCURRENCES = 5;
+
+// Localiza o número nas páginas comparando apenas dígitos, para resistir a quebras de linha e pontuação divergente.
+export const locateProcess = (pages: string[], processo: string): ProcessOccurrence[] => {
+  const target = onlyDigits(processo);
+  if (target.length !== 20) return [];
+  const occurrences: ProcessOccurrence[] = [];
+
+  pages.forEach((pageText, idx) => {
+    if (occurrences.length >= MAX_OCCURRENCES) return;
+    const positions: number[] = [];
+    let digits = '';
+    for (let i = 0; i < pageText.length; i++) {
+      const ch = pageText[i];
+      if (ch >= '0' && ch <= '9') {
+        digits += ch;
+        positions.push(i);
+      }
+    }
+
+    const found = digits.indexOf(target);
+    if (found === -1) return;
+
+    const start = positions[found];
+    const end = positions[found + target.length - 1] + 1;
+    const before = pageText.slice(Math.max(0, start - SNIPPET_RADIUS), start);
+    const after = pageText.slice(end, end + SNIPPET_RADIUS);
+    const trecho = `${start > SNIPPET_RADIUS ? '…' : ''}${before}${pageText.slice(start, end)}${after}${end + SNIPPET_RADIUS < pageText.length ? '…' : ''}`
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    occurrences.push({ pagina: idx + 1, trecho });
+  });
+
+  return occurrences;
+};
+
+// Todas as páginas (1-based) em que cada número aparece, sem o limite de ocorrências usado nos trechos.
+export const findProcessPages = (pages: string[], processos: string[]): Record<string, number[]> => {
+  const pageDigits = pages.map(onlyDigits);
+  return Object.fromEntries(processos.map(processo => {
+    const target = onlyDigits(processo);
+    const found = target.length === 20
+      ? pageDigits.flatMap((digits, idx) => digits.includes(target) ? [idx + 1] : [])
+      : [];
+    return [processo, found];
+  }));
+};
+
+export const attachOccurrences = (processes: LegalProcess[], pages: string[]): LegalProcess[] =>
+  processes.map(p => ({ ...p, ocorrencias: locateProcess(pages, p.processo) }));
+
+// Acrescenta ao resultado da IA os números que a extração local encontrou e o modelo omitiu.
+export const mergeWithBaseline = (aiProcesses: LegalProcess[], baseline: LegalProcess[]): LegalProcess[] => {
+  const seen = new Set(aiProcesses.map(p => onlyDigits(p.processo)));
+  const missing = baseline.filter(p => !seen.has(onlyDigits(p.processo)));
+  return [...aiProcesses, ...missing];
+};
+
+const mod97 = (digits: string) => {
+  let remainder = 0;
+  for (const d of digits) remainder = (remainder * 10 + Number(d)) % 97;
+  return remainder;
+};
+
+// Resolução CNJ 65/2008: NNNNNNN AAAA J TR OOOO DD deve deixar resto 1 na divisão por 97.
+const hasValidCheckDigits = (digits: string) =>
+  mod97(digits.slice(0, 7) + digits.slice(9) + digits.slice(7, 9)) === 1;
+
+export const computeCheckDigits = (digits: string) => {
+  const remainder = mod97(digits.slice(0, 7) + digits.slice(9) + '00');
+  return String(98 - remainder).padStart(2, '0');
+};
+
+const FORMATTED_PATTERN = /^\d{7}-\d{2}\.\d{4}\.\d\.\d{2}\.\d{4}$/;
+
+// Procura números válidos que difiram do informado em um único dígito.
+const singleDigitCandidates = (digits: string): string[] => {
+  const candidates: string[] = [];
+  for (let i = 0; i < digits.length; i++) {
+    for (let d = 0; d <= 9; d++) {
+      if (String(d) === digits[i]) continue;
+      const candidate = digits.slice(0, i) + d + digits.slice(i + 1);
+      if (isPlausible(candidate) && hasValidCheckDigits(candidate)) candidates.push(candidate);
+    }
+  }
+  return candidates;
+};
+
+export const validateCnj = (value: string): CnjValidation => {
+  const digits = onlyDigits(value);
+
+  if (digits.length !== 20) {
+    return { valido: false, motivo: `Número com ${digits.length} dígitos (esperados 20).` };
+  }
+
+  if (hasValidCheckDigits(digits) && isPlausible(digits)) {
+    if (FORMATTED_PATTERN.test(value.trim())) return { valido: true };
+    return { valido: false, motivo: 'Separadores ausentes ou fora do padrão CNJ.', sugestao: formatCnj(digits) };
+  }
+
+  const candidates = singleDigitCandidates(digits);
+  return {
+    valido: false,
+    motivo: 'Dígito verificador não confere (Resolução CNJ 65).',
+    sugestao: candidates.length === 1 ? formatCnj(candidates[0]) : undefined,
+  };
+};
+
+export const isValidCnj = (value: string) => validateCnj(value).valido;
+
+export interface InvalidEntry {
+  foro: string;
+  processo: string;
+  validation: CnjValidation;
+}
+
+// Separa os números inválidos para que as exportações os listem à parte.
+export const splitByValidity = (results: GroupedProcesses): { valid: GroupedProcesses; invalid: InvalidEntry[] } => {
+  const valid: GroupedProcesses = {};
+  const invalid: InvalidEntry[] = [];
+
+  Object.entries(results).forEach(([foro, processos]) => {
+    processos.forEach(processo => {
+      const validation = validateCnj(processo);
+      if (validation.valido) {
+        if (!valid[foro]) valid[foro] = [];
+        valid[foro].push(processo);
+      } else {
+        invalid.push({ foro, processo, validation });
+      }
+    });
+  });
+
+  return { valid, invalid };
+};
+
+export const countInvalid = (results: GroupedProcesses) =>
+  Object.values(results).reduce((acc, processos) => acc + processos.filter(p => !isValidCnj(p)).length, 0);
+
+export const countInvalidByForo = (results: GroupedProcesses): Record<string, number> =>
+  Object.fromEntries(Object.entries(results).map(([foro, processos]) => [foro, processos.filter(p => !isValidCnj(p)).length]));
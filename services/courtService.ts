@@ -0,0 +1,173 @@
+import { CourtInfo } from "../types";
+import { onlyDigits } from "./cnjService";
+
+// Segmento do Poder Judiciário (J) conforme a Resolução CNJ 65/2008.
+const SEGMENTOS: Record<string, string> = {
+  '1': 'Supremo Tribunal Federal',
+  '2': 'Conselho Nacional de Justiça',
+  '3': 'Superior Tribunal de Justiça',
+  '4': 'Justiça Federal',
+  '5': 'Justiça do Trabalho',
+  '6': 'Justiça Eleitoral',
+  '7': 'Justiça Militar da União',
+  '8': 'Justiça Estadual',
+  '9': 'Justiça Militar Estadual',
+};
+
+// Ordem das UFs usada pelo CNJ nos códigos TR da Justiça Estadual e Eleitoral (01 = AC ... 27 = TO).
+export const UFS = [
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+  'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SE', 'SP', 'TO',
+];
+
+const ufFromTr = (tr: string) => UFS[parseInt(tr, 10) - 1];
+
+const resolveTribunal = (segment: string, tr: string): string | undefined => {
+  const trNumber = parseInt(tr, 10);
+  switch (segment) {
+    case '1': return 'STF';
+    case '2': return 'CNJ';
+    case '3': return 'STJ';
+    case '4':
+      if (tr === '90') return 'CJF';
+      return trNumber >= 1 && trNumber <= 6 ? `TRF${trNumber}` : undefined;
+    case '5':
+      if (tr === '00') return 'TST';
+      if (tr === '90') return 'CSJT';
+      return trNumber >= 1 && trNumber <= 24 ? `TRT${trNumber}` : undefined;
+    case '6':
+      if (tr === '00') return 'TSE';
+      return ufFromTr(tr) ? `TRE-${ufFromTr(tr)}` : undefined;
+    case '7':
+      return tr === '00' ? 'STM' : `${trNumber}ª CJM`;
+    case '8':
+      if (tr === '07') return 'TJDFT';
+      return ufFromTr(tr) ? `TJ${ufFromTr(tr)}` : undefined;
+    case '9':
+      return { '13': 'TJMMG', '21': 'TJMRS', '26': 'TJMSP' }[tr];
+    default:
+      return undefined;
+  }
+};
+
+// Unidades de origem (OOOO) da Justiça Estadual, indexadas por TR. Tabela parcial: TJSP primeiro, depois as capitais.
+const ORIGENS_ESTADUAIS: Record<string, Record<string, string>> = {
+  '26': {
+    '0001': 'São Paulo - Foro Regional de Santana',
+    '0002': 'São Paulo - Foro Regional de Santo Amaro',
+    '0003': 'São Paulo - Foro Regional do Jabaquara',
+    '0004': 'São Paulo - Foro Regional da Lapa',
+    '0005': 'São Paulo - Foro Regional de São Miguel Paulista',
+    '0006': 'São Paulo - Foro Regional da Penha de França',
+    '0007': 'São Paulo - Foro Regional de Itaquera',
+    '0008': 'São Paulo - Foro Regional do Tatuapé',
+    '0009': 'São Paulo - Foro Regional da Vila Prudente',
+    '0010': 'São Paulo - Foro Regional do Ipiranga',
+    '0011': 'São Paulo - Foro Regional de Pinheiros',
+    '0020': 'São Paulo - Foro Regional de Nossa Senhora do Ó',
+    '0050': 'São Paulo - Foro Central Criminal Barra Funda',
+    '0053': 'São Paulo - Foro Central da Fazenda Pública',
+    '0100': 'São Paulo - Foro Central Cível',
+    '0704': 'São Paulo - Foro Regional do Butantã',
+    '0019': 'Americana',
+    '0022': 'Amparo',
+    '0032': 'Araçatuba',
+    '0037': 'Araraquara',
+    '0047': 'Assis',
+    '0048': 'Atibaia',
+    '0068': 'Barueri',
+    '0071': 'Bauru',
+    '0072': 'Bebedouro',
+    '0079': 'Botucatu',
+    '0099': 'Bragança Paulista',
+    '0114': 'Campinas',
+    '0126': 'Caraguatatuba',
+    '0127': 'Carapicuíba',
+    '0152': 'Cotia',
+    '0161': 'Diadema',
+    '0196': 'Franca',
+    '0223': 'Guarujá',
+    '0224': 'Guarulhos',
+    '0269': 'Itapetininga',
+    '0278': 'Itaquaquecetuba',
+    '0286': 'Itu',
+    '0291': 'Jaboticabal',
+    '0309': 'Jundiaí',
+    '0320': 'Limeira',
+    '0344': 'Marília',
+    '0348': 'Mauá',
+    '0361': 'Mogi das Cruzes',
+    '0400': 'Olímpia',
+    '0405': 'Osasco',
+    '0451': 'Piracicaba',
+    '0477': 'Praia Grande',
+    '0482': 'Presidente Prudente',
+    '0506': 'Ribeirão Preto',
+    '0510': 'Rio Claro',
+    '0554': 'Santo André',
+    '0562': 'Santos',
+    '0564': 'São Bernardo do Campo',
+    '0565': 'São Caetano do Sul',
+    '0566': 'São Carlos',
+    '0576': 'São José do Rio Preto',
+    '0577': 'São José dos Campos',
+    '0590': 'São Vicente',
+    '0602': 'Sorocaba',
+    '0625': 'Taubaté',
+    '0664': 'Votuporanga',
+  },
+  '01': { '0001': 'Rio Branco' },
+  '02': { '0001': 'Maceió' },
+  '03': { '0001': 'Macapá' },
+  '04': { '0001': 'Manaus' },
+  '05': { '0001': 'Salvador' },
+  '06': { '0001': 'Fortaleza' },
+  '07': { '0001': 'Brasília' },
+  '08': { '0024': 'Vitória' },
+  '09': { '0051': 'Goiânia' },
+  '10': { '0001': 'São Luís' },
+  '11': { '0041': 'Cuiabá' },
+  '12': { '0001': 'Campo Grande' },
+  '13': { '0024': 'Belo Horizonte' },
+  '14': { '0301': 'Belém' },
+  '15': { '2001': 'João Pessoa' },
+  '16': { '0001': 'Curitiba' },
+  '17': { '0001': 'Recife' },
+  '18': { '0140': 'Teresina' },
+  '19': { '0001': 'Rio de Janeiro (Capital)' },
+  '20': { '0001': 'Natal' },
+  '21': { '0001': 'Porto Alegre' },
+  '22': { '0001': 'Porto Velho' },
+  '23': { '0010': 'Boa Vista' },
+  '24': { '0023': 'Florianópolis (Capital)' },
+  '27': { '2729': 'Palmas' },
+};
+
+export const lookupCourt = (processo: string): CourtInfo | null => {
+  const digits = onlyDigits(processo);
+  if (digits.length !== 20) return null;
+
+  const segment = digits.slice(13, 14);
+  const tr = digits.slice(14, 16);
+  const origem = digits.slice(16, 20);
+
+  const segmento = SEGMENTOS[segment];
+  const tribunal = resolveTribunal(segment, tr);
+  if (!segmento || !tribunal) return null;
+
+  const foro = origem === '0000'
+    ? `${tribunal} - Competência Originária`
+    : segment === '8' ? ORIGENS_ESTADUAIS[tr]?.[origem] : undefined;
+
+  return { segmento, tribunal, origem, foro };
+};
+
+export const knownForoNames = () =>
+  Object.values(ORIGENS_ESTADUAIS).flatMap(origens => Object.values(origens));
+
+// UF do processo quando o tribunal é estadual (Justiça Estadual, Militar Estadual ou Eleitoral); define os feriados locais.
+export const lookupUf = (processo: string): string | undefined => {
+  const digits = onlyDigits(processo);
+  if (digits.length !== 20 || !['6', '8', '9'].includes(digits[13])) return undefined;
+  return ufFromTr(digits.slice(14, 16));
+};
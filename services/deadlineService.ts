@@ -0,0 +1,77 @@
+import { CourtHoliday, DjePublication, LegalProcess, ProcessDeadline } from "../types";
+import { nextBusinessDay, parseDate } from "./calendarService";
+import { onlyDigits } from "./cnjService";
+import { lookupUf } from "./courtService";
+
+export const DEADLINE_OPTIONS = [5, 10, 15, 30];
+export const DEFAULT_DEADLINE_DAYS = 15;
+const MAX_DEADLINE_DAYS = 365;
+
+// CPC, art. 224: a publicação é o primeiro dia útil após a disponibilização no DJE (§ 2º)
+// e a contagem começa no primeiro dia útil seguinte (§ 3º); só dias úteis entram na conta (art. 219).
+export const computeDeadline = (
+  processo: string,
+  disponibilizacao: string,
+  dias: number,
+  calendar: CourtHoliday[],
+  tipo?: string
+): ProcessDeadline => {
+  const uf = lookupUf(processo);
+  const publicacao = nextBusinessDay(disponibilizacao, calendar, uf);
+  const inicio = nextBusinessDay(publicacao, calendar, uf);
+  let vencimento = inicio;
+  for (let day = 1; day < dias; day++) vencimento = nextBusinessDay(vencimento, calendar, uf);
+  return { processo, disponibilizacao, publicacao, inicio, vencimento, dias, ...(tipo && { tipo }), ...(uf && { uf }) };
+};
+
+export const isValidDeadlineDays = (dias: number) => Number.isInteger(dias) && dias > 0 && dias <= MAX_DEADLINE_DAYS;
+
+export interface DeadlineSuggestion {
+  dias: number;
+  tipo: string;
+}
+
+// "no prazo de 15 (quinze) dias", "em 5 dias"
+const EXPLICIT_DAYS = /(?:prazo(?:\s+legal)?\s+de|\bem)\s+(\d{1,3})\s*(?:\([^)]{1,20}\)\s*)?dias/i;
+
+// Prazos legais mais comuns, na ordem de precedência: o primeiro ato reconhecido no texto define o prazo.
+const ACT_RULES: { pattern: RegExp; dias: number; tipo: string }[] = [
+  { pattern: /embargos de declara/i, dias: 5, tipo: 'Embargos de declaração' },
+  { pattern: /contrarraz/i, dias: 15, tipo: 'Contrarrazões' },
+  { pattern: /apela[çc]/i, dias: 15, tipo: 'Apelação' },
+  { pattern: /agravo/i, dias: 15, tipo: 'Agravo' },
+  { pattern: /r[ée]plica|sobre a contesta/i, dias: 15, tipo: 'Réplica' },
+  { pattern: /contest/i, dias: 15, tipo: 'Contestação' },
+  { pattern: /emend/i, dias: 15, tipo: 'Emenda à inicial' },
+  { pattern: /art\.?\s*523|pagamento volunt|efetu(?:e|ar) o pagamento/i, dias: 15, tipo: 'Pagamento (art. 523)' },
+  { pattern: /impugna/i, dias: 15, tipo: 'Impugnação' },
+  { pattern: /manifest/i, dias: 5, tipo: 'Manifestação (art. 218, § 3º)' },
+];
+
+// Sugere o prazo a partir do texto do ato: prazo fixado expressamente tem prioridade sobre o prazo legal do tipo de ato.
+export const suggestDeadline = (text: string): DeadlineSuggestion | null => {
+  const explicit = text.match(EXPLICIT_DAYS);
+  if (explicit && isValidDeadlineDays(Number(explicit[1]))) {
+    return { dias: Number(explicit[1]), tipo: 'Prazo fixado no ato' };
+  }
+  const rule = ACT_RULES.find(r => r.pattern.test(text));
+  return rule ? { dias: rule.dias, tipo: rule.tipo } : null;
+};
+
+// Texto do ato: as publicações do DJE quando existem, senão os trechos em que o número aparece.
+export const actText = (process: LegalProcess, publications: DjePublication[] = []) => {
+  const digits = onlyDigits(process.processo);
+  const own = publications.filter(p => onlyDigits(p.processo) === digits).map(p => p.texto);
+  return own.length > 0 ? own.join('\n') : (process.ocorrencias || []).map(oc => oc.trecho).join('\n');
+};
+
+export const availabilityDate = (process: LegalProcess) => parseDate(process.dataPublicacao);
+
+// Substitui o prazo do mesmo processo, mantendo os demais.
+export const upsertDeadlines = (current: ProcessDeadline[] = [], updates: ProcessDeadline[]) => {
+  const replaced = new Set(updates.map(d => onlyDigits(d.processo)));
+  return [...current.filter(d => !replaced.has(onlyDigits(d.processo))), ...updates];
+};
+
+export const removeDeadline = (current: ProcessDeadline[] = [], processo: string) =>
+  current.filter(d => onlyDigits(d.processo) !== onlyDigits(processo));
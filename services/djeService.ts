@@ -0,0 +1,181 @@
+import { DjePublication, LegalProcess, ProcessLawyer } from "../types";
+import { normalizeCnj, onlyDigits } from "./cnjService";
+import { foldText } from "./foroService";
+import { ZipEntry } from "./zipService";
+
+// Número CNJ com ou sem pontuação, como aparece no cabeçalho das publicações.
+const CNJ_TEXT = '\\d{7}\\s?-?\\s?\\d{2}\\s?\\.?\\s?\\d{4}\\s?\\.?\\s?\\d\\s?\\.?\\s?\\d{2}\\s?\\.?\\s?\\d{4}';
+
+// Abertura de uma publicação: "Processo 1000123-45.2024.8.26.0100", "Processo nº RO-0000123-...", "Autos nº ...", "Nº ...".
+const START_PATTERN = new RegExp(
+  `\\b(?:Processo|Proc\\.|Autos|N\\.?[º°])(?:\\s*n\\.?\\s*[º°o]\\.?)?\\s*:?\\s*(?:[A-Z]{2,8}\\s?-\\s?)?(${CNJ_TEXT})(?!\\d)`,
+  'gi'
+);
+
+// "nos autos do processo nº ..." cita outro processo dentro do texto; não abre publicação nova.
+const REFERENCE_BEFORE = /(?:^|\s)(?:d[oa]s?|n[oa]s?|aos?|à|pel[oa]s?|de|em|o|os|este|esse|referidos?)\s*$/i;
+const REFERENCE_WINDOW = 24;
+
+// "OAB 123456/SP", "OAB/SP 123.456", "OAB: 12.345-N/MG", "OAB nº 1234/RJ"
+const OAB_MENTION = /\(?\s*OAB\s*(?:n[º°o]\.?)?\s*[:\/]?\s*(?:([A-Z]{2})\s*[-\/]?\s*(\d[\d.]*(?:-?[A-Z](?![A-Za-z]))?)|(\d[\d.]*(?:-?[A-Z](?![A-Za-z]))?)\s*[\/-]\s*([A-Z]{2}))(?![A-Za-z])\s*\)?/g;
+
+const UFS = new Set(['AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA', 'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO']);
+
+// O nome do advogado é o trecho logo antes da OAB, a partir do último separador ("ADV:", vírgula, parêntese ou travessão).
+const NAME_WINDOW = 120;
+const NAME_SEPARATOR = /[,;:()]|\s[-–]\s/;
+const MAX_NAME_WORDS = 8;
+
+const formatOab = (uf: string, number: string) => `OAB/${uf} ${number.replace(/\.+$/, '').replace(/\./g, '')}`;
+
+const lawyerName = (before: string) => {
+  const trimmed = before.replace(/[\s(\-–,:;]+$/, '');
+  const name = (trimmed.split(NAME_SEPARATOR).pop() || '')
+    .replace(/^\s*(?:Dr\(?a?\)?\.?|Dra\.)\s+/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const words = name.split(' ');
+  return /[A-Za-zÀ-ú]{2}/.test(name) && words.length <= MAX_NAME_WORDS ? name : '';
+};
+
+// Advogados intimados na publicação, um por número de OAB, na ordem em que aparecem.
+export const parseIntimatedLawyers = (texto: string): ProcessLawyer[] => {
+  const lawyers = new Map<string, ProcessLawyer>();
+  Array.from(texto.matchAll(OAB_MENTION)).forEach(match => {
+    const uf = match[1] || match[4];
+    const number = match[2] || match[3];
+    if (!UFS.has(uf)) return;
+    const oab = formatOab(uf, number);
+    if (lawyers.has(oab)) return;
+    const nome = lawyerName(texto.slice(Math.max(0, match.index! - NAME_WINDOW), match.index));
+    lawyers.set(oab, { nome, oab });
+  });
+  return Array.from(lawyers.values());
+};
+
+export const lawyerLabel = (lawyer: ProcessLawyer) =>
+  lawyer.nome ? (lawyer.oab ? `${lawyer.nome} (${lawyer.oab})` : lawyer.nome) : lawyer.oab || '';
+
+// As páginas chegam como texto corrido; cada publicação guarda o intervalo de páginas que ocupa.
+const joinPages = (pages: string[]) => {
+  const offsets: number[] = [];
+  let text = '';
+  pages.forEach(page => {
+    offsets.push(text.length);
+    text += `${page.replace(/\s+/g, ' ').trim()} `;
+  });
+  return { text, offsets };
+};
+
+const pageAt = (offsets: number[], index: number) => {
+  let page = 1;
+  offsets.forEach((offset, idx) => { if (offset <= index) page = idx + 1; });
+  return page;
+};
+
+// Divide a edição do DJE em publicações: cada uma vai do cabeçalho com o número do processo até o cabeçalho seguinte.
+// O texto antes da primeira publicação (capa, expediente, índice) é descartado.
+export const segmentPublications = (pages: string[]): DjePublication[] => {
+  const { text, offsets } = joinPages(pages);
+  const starts = Array.from(text.matchAll(START_PATTERN))
+    .filter(match => !REFERENCE_BEFORE.test(text.slice(Math.max(0, match.index! - REFERENCE_WINDOW), match.index)))
+    .map(match => ({ index: match.index!, processo: normalizeCnj(match[1]) }))
+    .filter((start): start is { index: number; processo: string } => !!start.processo);
+
+  return starts.map((start, idx) => {
+    const end = idx + 1 < starts.length ? starts[idx + 1].index : text.length;
+    const texto = text.slice(start.index, end).trim();
+    const first = pageAt(offsets, start.index);
+    const last = pageAt(offsets, start.index + Math.max(texto.length - 1, 0));
+    return {
+      id: crypto.randomUUID(),
+      processo: start.processo,
+      paginas: Array.from({ length: last - first + 1 }, (_, i) => first + i),
+      texto,
+      advogados: parseIntimatedLawyers(texto),
+    };
+  });
+};
+
+// Consulta com pelo menos três dígitos é tratada como OAB (a UF é opcional); o resto, como parte do nome.
+export const matchesLawyer = (lawyer: ProcessLawyer, query: string) => {
+  const digits = onlyDigits(query);
+  if (digits.length >= 3) {
+    if (!lawyer.oab || onlyDigits(lawyer.oab) !== digits) return false;
+    const uf = (query.toUpperCase().match(/\b[A-Z]{2}\b/g) || []).find(token => UFS.has(token));
+    return !uf || lawyer.oab.startsWith(`OAB/${uf} `);
+  }
+  const name = foldText(query);
+  return !!name && foldText(lawyer.nome).includes(name);
+};
+
+export const filterPublications = (publications: DjePublication[], query: string) =>
+  query.trim() ? publications.filter(p => p.advogados.some(lawyer => matchesLawyer(lawyer, query))) : publications;
+
+export interface LawyerPublications {
+  lawyer: ProcessLawyer;
+  publications: DjePublication[];
+}
+
+// Agrupa por advogado (pela OAB, ou pelo nome quando ela falta); com consulta, só os advogados que a atendem.
+export const groupByLawyer = (publications: DjePublication[], query = ''): LawyerPublications[] => {
+  const groups = new Map<string, LawyerPublications>();
+  publications.forEach(publication => {
+    publication.advogados
+      .filter(lawyer => !query.trim() || matchesLawyer(lawyer, query))
+      .forEach(lawyer => {
+        const key = lawyer.oab || foldText(lawyer.nome);
+        if (!groups.has(key)) groups.set(key, { lawyer, publications: [] });
+        const group = groups.get(key)!;
+        if (!group.lawyer.nome && lawyer.nome) group.lawyer = lawyer;
+        group.publications.push(publication);
+      });
+  });
+  return Array.from(groups.values()).sort((a, b) => lawyerLabel(a.lawyer).localeCompare(lawyerLabel(b.lawyer), 'pt-BR'));
+};
+
+const pagesLabel = (paginas: number[]) =>
+  paginas.length > 1 ? `págs. ${paginas[0]}-${paginas[paginas.length - 1]}` : `pág. ${paginas[0]}`;
+
+export const formatPublications = (publications: DjePublication[], title: string, documentName: string) => {
+  let text = `PUBLICAÇÕES DO DIÁRIO OFICIAL - ${title}\n`;
+  text += `Documento: ${documentName}\n`;
+  text += `Gerado em: ${new Date().toLocaleString('pt-BR')}\n`;
+  text += `Publicações: ${publications.length}\n`;
+  text += `=====================================\n\n`;
+
+  publications.forEach((publication, idx) => {
+    text += `[${idx + 1}] Processo ${publication.processo} (${pagesLabel(publication.paginas)})\n`;
+    if (publication.advogados.length > 0) {
+      text += `Intimados: ${publication.advogados.map(lawyerLabel).join('; ')}\n`;
+    }
+    text += `-------------------------------------\n${publication.texto}\n\n`;
+  });
+  return text;
+};
+
+const fileSafe = (name: string) => name.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Um arquivo TXT por advogado, com o texto integral de cada publicação em que ele é intimado.
+export const buildLawyerFiles = (publications: DjePublication[], documentName: string, query = ''): ZipEntry[] =>
+  groupByLawyer(publications, query).map(({ lawyer, publications: own }) => ({
+    name: `${fileSafe(lawyerLabel(lawyer)) || 'Advogado'}.txt`,
+    data: formatPublications(own, lawyerLabel(lawyer), documentName),
+  }));
+
+// Processos sem advogados (extração resumida ou motor local) herdam os intimados nas suas publicações.
+export const attachPublicationLawyers = (processes: LegalProcess[], publications: DjePublication[]): LegalProcess[] => {
+  const byNumber = new Map<string, ProcessLawyer[]>();
+  publications.forEach(publication => {
+    const digits = onlyDigits(publication.processo);
+    const lawyers = byNumber.get(digits) || [];
+    publication.advogados
+      .filter(lawyer => lawyer.nome && !lawyers.some(known => known.oab === lawyer.oab))
+      .forEach(lawyer => lawyers.push(lawyer));
+    byNumber.set(digits, lawyers);
+  });
+  return processes.map(p => {
+    const lawyers = byNumber.get(onlyDigits(p.processo));
+    return !p.advogados?.length && lawyers?.length ? { ...p, advogados: lawyers } : p;
+  });
+};
@@ -0,0 +1,53 @@
+import { AppSettings, ExtractionOptions, ExtractionProvider, ExtractionResult } from "../types";
+import { geminiProvider } from "./geminiService";
+import { createOpenAiProvider } from "./openaiService";
+import { mockProvider } from "./mockProvider";
+import { parseExtractionResponse, withRetry, RetryOptions } from "./responseService";
+import { createRateLimiter } from "./rateLimiter";
+
+// Compartilhado por todas as análises em paralelo, para que o limite valha por provedor e não por arquivo.
+const rateLimiter = createRateLimiter();
+
+export const configureRateLimit = (requestsPerMinute: number) => rateLimiter.setLimit(requestsPerMinute);
+
+export const PROVIDER_OPTIONS: { id: AppSettings['provider']; label: string }[] = [
+  { id: 'gemini', label: geminiProvider.label },
+  { id: 'openai', label: 'Compatível com OpenAI / Local' },
+  { id: 'mock', label: mockProvider.label },
+];
+
+export const getProvider = (settings: AppSettings): ExtractionProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiProvider(settings.openai);
+    case 'mock':
+      return mockProvider;
+    default:
+      return geminiProvider;
+  }
+};
+
+// Falhas transitórias e respostas fora do esquema são repetidas com backoff; o erro final sobe para a interface.
+// O sinal de cancelamento em options chega à requisição de rede e interrompe também a espera entre tentativas.
+export const extractLegalData = (
+  provider: ExtractionProvider,
+  text: string,
+  options: ExtractionOptions = {},
+  retry?: RetryOptions
+): Promise<ExtractionResult> =>
+  withRetry(async () => {
+    await rateLimiter.acquire(options.signal);
+    return parseExtractionResponse(await provider.extractFromText(text, options));
+  }, { ...retry, signal: options.signal });
+
+export const extractLegalDataFromModality = (
+  provider: ExtractionProvider,
+  base64Data: string,
+  mimeType: string,
+  options: ExtractionOptions = {},
+  retry?: RetryOptions
+): Promise<ExtractionResult> =>
+  withRetry(async () => {
+    await rateLimiter.acquire(options.signal);
+    return parseExtractionResponse(await provider.extractFromFile(base64Data, mimeType, options));
+  }, { ...retry, signal: options.signal });
@@ -0,0 +1,103 @@
+import { jsPDF } from "jspdf";
+import { findProcessPages } from "./cnjService";
+import { composePdf, extractPagesFromPdf, ProgressCallback } from "./pdfService";
+
+export interface FilteredSelection {
+  foro: string;
+  processo: string;
+  // Páginas registradas na análise, usadas quando o original não tem camada de texto (PDF digitalizado).
+  paginas?: number[];
+}
+
+export interface FilteredPdf {
+  blob: Blob;
+  pageCount: number;
+  missing: string[];
+}
+
+const COVER_SOURCE = 'capa';
+const ORIGINAL_SOURCE = 'original';
+
+const formatPages = (pages: number[]) => pages.length > 0 ? pages.join(', ') : 'não localizado no texto';
+
+// Capa com o que foi incluído: cada processo com as páginas que ocupava no documento original.
+const buildCover = (name: string, selection: FilteredSelection[], pageMap: Record<string, number[]>, totalPages: number) => {
+  const doc = new jsPDF();
+  let y = 20;
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text(`Extrato de Páginas: ${name}`, 10, y);
+  y += 10;
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(`Gerado em: ${new Date().toLocaleString()}`, 10, y);
+  y += 6;
+  doc.text(`${totalPages} página(s) do documento original incluída(s) a seguir.`, 10, y);
+  y += 12;
+
+  const byForo = new Map<string, FilteredSelection[]>();
+  selection.forEach(item => {
+    if (!byForo.has(item.foro)) byForo.set(item.foro, []);
+    byForo.get(item.foro)!.push(item);
+  });
+
+  byForo.forEach((items, foro) => {
+    if (y > 270) { doc.addPage(); y = 20; }
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text(`FORO: ${foro}`, 10, y);
+    y += 7;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    items.forEach(({ processo }) => {
+      const lines = doc.splitTextToSize(`- ${processo} (págs. originais: ${formatPages(pageMap[processo] || [])})`, 185);
+      if (y + lines.length * 5 > 285) { doc.addPage(); y = 20; }
+      doc.text(lines, 15, y);
+      y += lines.length * 5;
+    });
+    y += 5;
+  });
+
+  return { blob: doc.output('blob'), pageCount: doc.getNumberOfPages() };
+};
+
+// Relê o texto do original para achar todas as páginas de cada processo e monta capa + páginas no worker de PDF.
+// Processos que o texto não localiza ficam com as páginas registradas na análise, quando houver.
+export const buildFilteredPdf = async (
+  source: Blob,
+  name: string,
+  selection: FilteredSelection[],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<FilteredPdf> => {
+  const pages = await extractPagesFromPdf(source, onProgress, signal);
+  const found = findProcessPages(pages, selection.map(item => item.processo));
+  const pageMap: Record<string, number[]> = Object.fromEntries(selection.map(item => {
+    const own = found[item.processo] || [];
+    return [item.processo, own.length > 0 ? own : (item.paginas || []).filter(page => page <= pages.length)];
+  }));
+  const included = Array.from(new Set(Object.values(pageMap).flat())).sort((a, b) => a - b);
+  if (included.length === 0) {
+    throw new Error(pages.some(text => text.trim())
+      ? 'Nenhuma página do documento original menciona os processos selecionados.'
+      : 'O documento original não tem camada de texto e a análise não registrou as páginas dos processos (ex.: leitura por OCR).');
+  }
+
+  const cover = buildCover(name, selection, pageMap, included.length);
+  const composed = [
+    ...Array.from({ length: cover.pageCount }, (_, idx) => ({ sourceId: COVER_SOURCE, page: idx + 1, rotation: 0 })),
+    ...included.map(page => ({ sourceId: ORIGINAL_SOURCE, page, rotation: 0 })),
+  ];
+  const blob = await composePdf(
+    [{ id: COVER_SOURCE, name: 'Capa', blob: cover.blob }, { id: ORIGINAL_SOURCE, name, blob: source }],
+    composed,
+    false,
+    signal
+  );
+
+  return {
+    blob,
+    pageCount: composed.length,
+    missing: selection.filter(item => (pageMap[item.processo] || []).length === 0).map(item => item.processo),
+  };
+};
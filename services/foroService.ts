@@ -0,0 +1,88 @@
+import { ForoAliases } from "../types";
+import { knownForoNames } from "./courtService";
+
+const FORO_PREFIXES = [
+  'juizo de direito da comarca de',
+  'foro distrital de',
+  'foro da comarca de',
+  'foro de',
+  'foro do',
+  'foro da',
+  'comarca de',
+  'comarca do',
+  'comarca da',
+];
+
+const LOWERCASE_WORDS = new Set(['de', 'da', 'do', 'das', 'dos', 'e']);
+
+export const foldText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Remove prefixos como "Foro de" e "Comarca de", preservando acentos e a grafia do restante.
+export const stripForoPrefix = (foro: string) => {
+  let name = foro.trim();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const folded = foldText(name);
+    for (const prefix of FORO_PREFIXES) {
+      if (folded.startsWith(prefix + ' ')) {
+        const words = prefix.split(' ').length;
+        name = name.trim().split(/\s+/).slice(words).join(' ');
+        changed = true;
+        break;
+      }
+    }
+  }
+  return name.trim();
+};
+
+// Chave de agrupamento: sem acentos, sem caixa e sem prefixos.
+export const foroKey = (foro: string) => foldText(stripForoPrefix(foro));
+
+// Considera compatíveis nomes em que um contém o outro em palavras inteiras ("Foro Central Cível" x "São Paulo - Foro Central Cível"),
+// mas não "Itu" x "Ituverava" ou "Jaú" x "Jauru".
+export const forosMatch = (a: string, b: string) => {
+  const ka = ` ${foroKey(a)} `;
+  const kb = ` ${foroKey(b)} `;
+  return ka === kb || ka.includes(kb) || kb.includes(ka);
+};
+
+const titleCase = (value: string) =>
+  value
+    .toLocaleLowerCase('pt-BR')
+    .split(/\s+/)
+    .map((word, idx) => (idx > 0 && LOWERCASE_WORDS.has(word)) ? word : word.charAt(0).toLocaleUpperCase('pt-BR') + word.slice(1))
+    .join(' ');
+
+let knownNamesIndex: Map<string, string> | null = null;
+const knownName = (key: string) => {
+  if (!knownNamesIndex) knownNamesIndex = new Map(knownForoNames().map(name => [foroKey(name), name]));
+  return knownNamesIndex.get(key);
+};
+
+export const canonicalizeForo = (foro: string, aliases: ForoAliases = {}): string => {
+  const stripped = stripForoPrefix(foro);
+  if (!stripped) return foro.trim();
+
+  const key = foldText(stripped);
+  if (aliases[key]) return aliases[key];
+
+  const known = knownName(key);
+  if (known) return known;
+
+  const isSingleCase = stripped === stripped.toLocaleUpperCase('pt-BR') || stripped === stripped.toLocaleLowerCase('pt-BR');
+  return isSingleCase ? titleCase(stripped) : stripped;
+};
+
+export const addAlias = (aliases: ForoAliases, variant: string, canonical: string): ForoAliases => {
+  const key = foroKey(variant);
+  if (!key || !canonical.trim()) return aliases;
+  return { ...aliases, [key]: canonical.trim() };
+};
+
+export const removeAlias = (aliases: ForoAliases, key: string): ForoAliases => {
+  const next = { ...aliases };
+  delete next[key];
+  return next;
+};
@@ -0,0 +1,163 @@
+import { NearMatch } from "../types";
+import { formatCnj, isValidCnj, onlyDigits } from "./cnjService";
+
+// Trocas típicas de OCR em diários escaneados: letras lidas no lugar de dígitos.
+const CONFUSABLES: Record<string, string> = {
+  O: '0', o: '0', Q: '0', D: '0',
+  I: '1', i: '1', l: '1', '|': '1', '!': '1',
+  Z: '2', z: '2',
+  S: '5', s: '5',
+  G: '6', b: '6',
+  T: '7',
+  B: '8',
+  g: '9', q: '9',
+};
+
+const PIECE_PATTERN = /[0-9OoQDIil|!ZzSsGbTBgq](?:[0-9OoQDIil|!ZzSsGbTBgq.\-\/]*[0-9OoQDIil|!ZzSsGbTBgq])?/g;
+
+const MAX_DISTANCE = 3;
+const MIN_REAL_DIGITS = 14;
+const MAX_PIECE_GAP = 2;
+const MAX_MATCHES_PER_NUMBER = 3;
+const SNIPPET_RADIUS = 60;
+
+export interface FuzzySource {
+  text: string;
+  pagina?: number;
+}
+
+interface Candidate {
+  digits: string;
+  original: string;
+  start: number;
+  end: number;
+  pagina?: number;
+  trecho: string;
+}
+
+const toDigits = (value: string) => value.replace(/[^0-9]/g, ch => CONFUSABLES[ch] ?? '');
+
+// Trechos numéricos vizinhos (separados só por espaço) são combinados, porque o OCR costuma quebrar o número em blocos.
+const findCandidates = ({ text, pagina }: FuzzySource): Candidate[] => {
+  const pieces = Array.from(text.matchAll(PIECE_PATTERN))
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length, digits: toDigits(match[0]), real: onlyDigits(match[0]).length }))
+    .filter(piece => piece.real > 0 && piece.real * 2 >= piece.digits.length);
+
+  const candidates: Candidate[] = [];
+  for (let i = 0; i < pieces.length; i++) {
+    let digits = '';
+    let real = 0;
+    for (let j = i; j < pieces.length; j++) {
+      if (j > i && (pieces[j].start - pieces[j - 1].end > MAX_PIECE_GAP || text.slice(pieces[j - 1].end, pieces[j].start).trim())) break;
+      digits += pieces[j].digits;
+      real += pieces[j].real;
+      if (digits.length > 22) break;
+      if (digits.length >= 18 && real >= MIN_REAL_DIGITS) {
+        const start = pieces[i].start;
+        const end = pieces[j].end;
+        candidates.push({
+          digits,
+          original: text.slice(start, end),
+          start,
+          end,
+          pagina,
+          trecho: text.slice(Math.max(0, start - SNIPPET_RADIUS), end + SNIPPET_RADIUS).replace(/\s+/g, ' ').trim(),
+        });
+      }
+    }
+  }
+  return candidates;
+};
+
+// Levenshtein com faixa limitada: devolve `max + 1` assim que a distância passa do limite.
+const boundedDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Com até MAX_DISTANCE edições, ao menos um dos MAX_DISTANCE + 1 blocos do número pedido sobrevive intacto no candidato.
+// O índice de blocos limita o Levenshtein aos candidatos que compartilham algum deles, sem perder nenhuma correspondência.
+const blockIndex = (candidates: Candidate[]) => {
+  const indexes = new Map<number, Map<string, number[]>>();
+  return (size: number) => {
+    let index = indexes.get(size);
+    if (!index) {
+      index = new Map<string, number[]>();
+      candidates.forEach(({ digits }, position) => {
+        const grams = new Set<string>();
+        for (let i = 0; i + size <= digits.length; i++) grams.add(digits.slice(i, i + size));
+        grams.forEach(gram => {
+          const list = index!.get(gram);
+          if (list) list.push(position);
+          else index!.set(gram, [position]);
+        });
+      });
+      indexes.set(size, index);
+    }
+    return index;
+  };
+};
+
+const shortlist = (target: string, candidates: Candidate[], indexFor: (size: number) => Map<string, number[]>) => {
+  const size = Math.floor(target.length / (MAX_DISTANCE + 1));
+  if (size === 0) return candidates;
+  const index = indexFor(size);
+  const positions = new Set<number>();
+  for (let block = 0; block <= MAX_DISTANCE; block++) {
+    index.get(target.slice(block * size, (block + 1) * size))?.forEach(position => positions.add(position));
+  }
+  return Array.from(positions).sort((a, b) => a - b).map(position => candidates[position]);
+};
+
+const hasValidDigits = (digits: string) => digits.length === 20 && isValidCnj(formatCnj(digits));
+
+// Um candidato com dígito verificador válido e diferente do pedido é outro processo real, não uma avaria de OCR.
+export const findNearMatches = (requested: string[], sources: FuzzySource[]): NearMatch[] => {
+  const candidates = sources.flatMap(findCandidates);
+  const indexFor = blockIndex(candidates);
+
+  return requested.flatMap(processo => {
+    const target = onlyDigits(processo);
+    const targetValid = hasValidDigits(target);
+    const seen = new Set<string>();
+
+    return shortlist(target, candidates, indexFor)
+      .map(candidate => ({ candidate, distance: boundedDistance(target, candidate.digits, MAX_DISTANCE) }))
+      .filter(({ candidate, distance }) => {
+        if (distance > MAX_DISTANCE) return false;
+        if (targetValid && candidate.digits !== target && hasValidDigits(candidate.digits)) return false;
+        return true;
+      })
+      .sort((a, b) => a.distance - b.distance)
+      .filter(({ candidate }) => {
+        // Combinações sobrepostas do mesmo trecho contam uma vez só, com a melhor distância.
+        const key = `${candidate.pagina ?? ''}:${candidate.start}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_MATCHES_PER_NUMBER)
+      .map(({ candidate, distance }) => ({
+        id: crypto.randomUUID(),
+        requested: processo,
+        candidate: candidate.digits.length === 20 ? formatCnj(candidate.digits) : candidate.digits,
+        original: candidate.original,
+        similarity: Math.max(0, 1 - distance / target.length),
+        checkDigitsOk: hasValidDigits(candidate.digits),
+        pagina: candidate.pagina,
+        trecho: candidate.trecho,
+      }));
+  });
+};
@@ -1,103 +1,112 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { ExtractionResult } from "../types";
+import { ExtractionProvider } from "../types";
+import { buildTextSystemPrompt, buildTextUserPrompt, buildModalityPrompt, MODALITY_SYSTEM_PROMPT } from "./prompts";
+
+const BASE_FIELDS = {
+  foro: {
+    type: Type.STRING,
+    description: 'O nome da cidade ou foro, limpo (ex: Jaboticabal).',
+  },
+  processo: {
+    type: Type.STRING,
+    description: 'O número do processo formatado corretamente.',
+  },
+};
+
+// Campos opcionais: só são pedidos quando a extração detalhada está ligada nas configurações.
+const DETAIL_FIELDS = {
+  vara: { type: Type.STRING, description: 'Vara ou juízo (ex: 2ª Vara Cível).' },
+  classe: { type: Type.STRING, description: 'Classe processual.' },
+  assunto: { type: Type.STRING, description: 'Assunto principal do processo.' },
+  partes: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        nome: { type: Type.STRING },
+        polo: { type: Type.STRING, enum: ['autor', 'reu'] },
+      },
+      required: ['nome', 'polo'],
+    },
+  },
+  advogados: {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        nome: { type: Type.STRING },
+        oab: { type: Type.STRING, description: 'Inscrição na OAB (ex: OAB/SP 123.456).' },
+      },
+      required: ['nome'],
+    },
+  },
+  dataPublicacao: { type: Type.STRING, description: 'Data de publicação no formato AAAA-MM-DD.' },
+};
 
-const SHARED_SCHEMA = {
+const buildSchema = (fields: Record<string, unknown>) => ({
   type: Type.OBJECT,
   properties: {
     processes: {
       type: Type.ARRAY,
       items: {
         type: Type.OBJECT,
-        properties: {
-          foro: {
-            type: Type.STRING,
-            description: 'O nome da cidade ou foro, limpo (ex: Jaboticabal).',
-          },
-          processo: {
-            type: Type.STRING,
-            description: 'O número do processo formatado corretamente.',
-          },
-        },
+        properties: fields,
         required: ["foro", "processo"],
       },
     },
   },
   required: ["processes"],
-};
+});
 
-export const extractLegalData = async (text: string, searchList?: string): Promise<ExtractionResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const systemPrompt = searchList 
-    ? `Você é um assistente jurídico especializado em filtragem de documentos de alta precisão.
-       Busque EXCLUSIVAMENTE os seguintes números de processo no texto: ${searchList}.
-       Para cada um encontrado, identifique o Foro correspondente.
-       Regras:
-       1. Só retorne processos que estejam na lista de busca.
-       2. O "foro" deve ser o nome da cidade ou comarca limpo (ex: "Jaboticabal").
-       3. O número do processo deve ser formatado conforme o padrão CNJ (ex: "1001821-85.2024.8.26.0291").`
-    : `Você é um analista jurídico de IA. Extraia informações de todos os processos jurídicos encontrados no texto.
-       Regras:
-       1. Identifique o foro (cidade/comarca) e o número do processo.
-       2. O "foro" deve ser extraído e limpo (ex: "Jaboticabal").
-       3. O número do processo deve ser formatado sem espaços e com pontuação correta.
-       4. Ignore cabeçalhos e rodapés repetitivos, foque no conteúdo processual.`;
+const BASIC_SCHEMA = buildSchema(BASE_FIELDS);
+const SHARED_SCHEMA = buildSchema({ ...BASE_FIELDS, ...DETAIL_FIELDS });
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
-    contents: `Texto do documento para análise:\n\n${text}`,
-    config: {
-      systemInstruction: systemPrompt,
-      thinkingConfig: { thinkingBudget: 32768 },
-      responseMimeType: "application/json",
-      responseSchema: SHARED_SCHEMA,
-    },
-  });
+export const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
 
-  const resultStr = response.text?.trim() || '{"processes":[]}';
-  try {
-    return JSON.parse(resultStr) as ExtractionResult;
-  } catch (error) {
-    console.error("Failed to parse Gemini response as JSON:", error);
-    return { processes: [] };
-  }
-};
+  extractFromText: async (text, { searchList, knownNumbers, detailed, signal }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-export const extractLegalDataFromModality = async (base64Data: string, mimeType: string, searchList?: string): Promise<ExtractionResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-pro-preview',
+      contents: buildTextUserPrompt(text),
+      config: {
+        systemInstruction: buildTextSystemPrompt(searchList, knownNumbers, detailed),
+        thinkingConfig: { thinkingBudget: 32768 },
+        responseMimeType: "application/json",
+        responseSchema: detailed ? SHARED_SCHEMA : BASIC_SCHEMA,
+        abortSignal: signal,
+      },
+    });
 
-  const prompt = searchList
-    ? `Analise visualmente este documento (${mimeType}) e busque EXCLUSIVAMENTE estes processos: ${searchList}. 
-       Para cada um, identifique o Foro correspondente. Retorne em JSON conforme o esquema.`
-    : `Analise visualmente este documento (${mimeType}) e extraia todos os números de processo e seus respectivos foros (comarcas). 
-       Retorne em JSON conforme o esquema.`;
+    return response.text || '';
+  },
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            data: base64Data,
-            mimeType: mimeType,
+  extractFromFile: async (base64Data, mimeType, { searchList, detailed, signal }) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              data: base64Data,
+              mimeType: mimeType,
+            },
           },
-        },
-        { text: prompt },
-      ],
-    },
-    config: {
-      systemInstruction: "Você é um especialista em OCR e visão computacional jurídica. Extraia processos e foros de documentos (imagens ou PDFs digitalizados) com precisão absoluta.",
-      responseMimeType: "application/json",
-      responseSchema: SHARED_SCHEMA,
-    },
-  });
+          { text: buildModalityPrompt(mimeType, searchList, detailed) },
+        ],
+      },
+      config: {
+        systemInstruction: MODALITY_SYSTEM_PROMPT,
+        responseMimeType: "application/json",
+        responseSchema: detailed ? SHARED_SCHEMA : BASIC_SCHEMA,
+        abortSignal: signal,
+      },
+    });
 
-  const resultStr = response.text?.trim() || '{"processes":[]}';
-  try {
-    return JSON.parse(resultStr) as ExtractionResult;
-  } catch (error) {
-    console.error("Failed to parse Gemini multimodal response as JSON:", error);
-    return { processes: [] };
-  }
+    return response.text || '';
+  },
 };
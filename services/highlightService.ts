@@ -0,0 +1,51 @@
+import { GroupedProcesses, HighlightTarget } from "../types";
+import { onlyDigits } from "./cnjService";
+
+export type HighlightColorMode = 'foro' | 'search';
+
+// Cores claras o bastante para manter o texto legível sob o realce.
+const FORO_PALETTE: [number, number, number][] = [
+  [1, 0.92, 0.23],
+  [0.55, 0.87, 1],
+  [0.6, 0.95, 0.55],
+  [1, 0.7, 0.85],
+  [1, 0.75, 0.45],
+  [0.78, 0.7, 1],
+  [0.6, 0.95, 0.9],
+  [0.95, 0.85, 0.65],
+];
+
+const SEARCH_MATCH_COLOR: [number, number, number] = [0.6, 0.95, 0.55];
+const OTHER_MATCH_COLOR: [number, number, number] = [1, 0.92, 0.23];
+
+export const toCssColor = ([r, g, b]: [number, number, number]) =>
+  `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)})`;
+
+// Cada foro recebe uma cor fixa pela ordem alfabética, para que a legenda e o PDF coincidam.
+export const foroColors = (results: GroupedProcesses): Record<string, [number, number, number]> =>
+  Object.fromEntries(
+    Object.keys(results)
+      .sort((a, b) => a.localeCompare(b, 'pt-BR'))
+      .map((foro, idx) => [foro, FORO_PALETTE[idx % FORO_PALETTE.length]])
+  );
+
+// No modo 'search', os números pedidos na lista de busca da análise se destacam dos demais encontrados.
+export const buildHighlightTargets = (
+  results: GroupedProcesses,
+  mode: HighlightColorMode,
+  searchList: string[] = [],
+  filterForos?: Set<string>
+): HighlightTarget[] => {
+  const colors = foroColors(results);
+  const requested = new Set(searchList.map(onlyDigits));
+
+  return Object.entries(results)
+    .filter(([foro]) => !filterForos || filterForos.size === 0 || filterForos.has(foro))
+    .flatMap(([foro, processos]) => processos.map(processo => ({
+      processo,
+      foro,
+      color: mode === 'foro'
+        ? colors[foro]
+        : requested.has(onlyDigits(processo)) ? SEARCH_MATCH_COLOR : OTHER_MATCH_COLOR,
+    })));
+};
@@ -0,0 +1,229 @@
+import { HistoryItem, LegalProcess, ProcessDeadline } from "../types";
+import { addDays, formatDate, parseDate } from "./calendarService";
+import { onlyDigits } from "./cnjService";
+import { indexByNumber } from "./resultService";
+
+export type CalendarSource = Pick<HistoryItem, 'name' | 'results'> & Partial<Pick<HistoryItem, 'id' | 'processes' | 'deadlines' | 'publications'>>;
+
+export interface CalendarEvent {
+  uid: string;
+  kind: 'prazo' | 'audiencia';
+  processo: string;
+  foro: string;
+  documento: string;
+  data: string;
+  hora?: string;
+  titulo: string;
+  detalhes: string[];
+  pagina?: number;
+  trecho?: string;
+  link?: string;
+}
+
+// Endereço que reabre a análise do histórico na página do trecho; só existe para análises salvas no histórico.
+export type SnippetLinkBuilder = (historyId: string, processo: string, pagina: number) => string;
+
+export interface SnippetLink {
+  historyId: string;
+  digits: string;
+  pagina: number;
+}
+
+const LINK_PREFIX = '#trecho/';
+
+export const snippetLinkHash = (historyId: string, processo: string, pagina: number) =>
+  `${LINK_PREFIX}${encodeURIComponent(historyId)}/${onlyDigits(processo)}/${pagina}`;
+
+export const parseSnippetLink = (hash: string): SnippetLink | null => {
+  if (!hash.startsWith(LINK_PREFIX)) return null;
+  const [historyId, digits, pagina] = hash.slice(LINK_PREFIX.length).split('/');
+  const page = parseInt(pagina, 10);
+  return historyId && digits?.length === 20 && page > 0 ? { historyId: decodeURIComponent(historyId), digits, pagina: page } : null;
+};
+
+interface TextSource {
+  text: string;
+  pagina?: number;
+}
+
+// Onde procurar audiências e de onde tirar o trecho: publicações do DJE do processo ou os trechos em que o número aparece.
+const processTexts = (process: LegalProcess, source: CalendarSource): TextSource[] => {
+  const digits = onlyDigits(process.processo);
+  const publications = (source.publications || []).filter(p => onlyDigits(p.processo) === digits);
+  if (publications.length > 0) return publications.map(p => ({ text: p.texto, pagina: p.paginas[0] }));
+  return (process.ocorrencias || []).map(oc => ({ text: oc.trecho, pagina: oc.pagina }));
+};
+
+const SNIPPET_LENGTH = 300;
+
+const snippet = (text: string, from = 0) => {
+  const start = Math.max(0, from - 60);
+  const slice = text.slice(start, start + SNIPPET_LENGTH).trim();
+  return `${start > 0 ? '…' : ''}${slice}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+};
+
+// "audiência de conciliação designada para o dia 10/05/2025, às 14h30"
+const HEARING_PATTERN = /audi[êe]ncia(\s+de\s+[a-zà-ú]+(?:\s+e\s+[a-zà-ú]+)?)?[^]{0,160}?(\d{1,2}\/\d{1,2}\/\d{4})(?:[\s,]*(?:às|as|a partir das)?\s*(\d{1,2})\s*(?:h|:)\s*(\d{2})?)?/gi;
+
+export interface Hearing {
+  data: string;
+  hora?: string;
+  tipo: string;
+  index: number;
+}
+
+export const findHearings = (text: string): Hearing[] =>
+  Array.from(text.matchAll(HEARING_PATTERN)).flatMap(match => {
+    const data = parseDate(match[2]);
+    if (!data) return [];
+    const hour = match[3] !== undefined ? Number(match[3]) : NaN;
+    const minute = match[4] !== undefined ? Number(match[4]) : 0;
+    const hora = hour < 24 && minute < 60 ? `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}` : undefined;
+    const tipo = `Audiência${match[1] ? match[1].replace(/\s+/g, ' ').toLowerCase() : ''}`;
+    return [{ data, ...(hora && { hora }), tipo, index: match.index! }];
+  });
+
+// O UID identifica o evento pela análise, pelo processo e pelo tipo; assim, um prazo recalculado substitui o anterior
+// na agenda em vez de duplicá-lo. Análises fora do histórico não têm id e usam um identificador fixo.
+const eventUid = (source: CalendarSource, kind: CalendarEvent['kind'], digits: string, suffix?: string) =>
+  [kind, source.id || 'avulsa', digits, suffix].filter(Boolean).join('-');
+
+// Um evento por prazo calculado e por audiência encontrada no texto, apenas dos foros escolhidos quando há filtro.
+export const buildCalendarEvents = (sources: CalendarSource[], filterForos?: Set<string>, linkFor?: SnippetLinkBuilder): CalendarEvent[] =>
+  sources.flatMap(source => {
+    const details = indexByNumber(source.processes);
+    const deadlines = new Map<string, ProcessDeadline>((source.deadlines || []).map(d => [onlyDigits(d.processo), d]));
+
+    return Object.entries(source.results)
+      .filter(([foro]) => !filterForos || filterForos.has(foro))
+      .flatMap(([foro, processos]) => processos.flatMap(processo => {
+        const digits = onlyDigits(processo);
+        const process = details.get(digits) || { foro, processo };
+        const texts = processTexts(process, source);
+        const link = (pagina?: number) => (source.id && pagina && linkFor ? linkFor(source.id, processo, pagina) : undefined);
+        const events: CalendarEvent[] = [];
+
+        const deadline = deadlines.get(digits);
+        if (deadline) {
+          const first = texts[0];
+          events.push({
+            uid: eventUid(source, 'prazo', digits),
+            kind: 'prazo',
+            processo,
+            foro,
+            documento: source.name,
+            data: deadline.vencimento,
+            titulo: `Prazo: ${processo} - ${foro}`,
+            detalhes: [
+              `Prazo: ${deadline.dias} dias úteis${deadline.tipo ? ` (${deadline.tipo})` : ''}`,
+              `Disponibilização: ${formatDate(deadline.disponibilizacao)} • Publicação: ${formatDate(deadline.publicacao)} • Início: ${formatDate(deadline.inicio)}`,
+            ],
+            pagina: first?.pagina,
+            trecho: first && snippet(first.text),
+            link: link(first?.pagina),
+          });
+        }
+
+        const seen = new Set<string>();
+        texts.forEach(({ text, pagina }) => findHearings(text).forEach(hearing => {
+          const key = `${hearing.data}T${hearing.hora || ''}`;
+          if (seen.has(key)) return;
+          seen.add(key);
+          events.push({
+            uid: eventUid(source, 'audiencia', digits, key.replace(/\D/g, '')),
+            kind: 'audiencia',
+            processo,
+            foro,
+            documento: source.name,
+            data: hearing.data,
+            hora: hearing.hora,
+            titulo: `${hearing.tipo}: ${processo} - ${foro}`,
+            detalhes: [`${hearing.tipo} em ${formatDate(hearing.data)}${hearing.hora ? ` às ${hearing.hora}` : ''}`],
+            pagina,
+            trecho: snippet(text, hearing.index),
+            link: link(pagina),
+          });
+        }));
+
+        return events;
+      }));
+  });
+
+// RFC 5545: texto com \, ; , e quebras de linha escapados; linhas dobradas em 75 octetos.
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+const foldLine = (line: string) => {
+  let folded = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    if (octets + size > 75) {
+      folded += '\r\n ';
+      octets = 1;
+    }
+    folded += ch;
+    octets += size;
+  }
+  return folded;
+};
+
+const icsDate = (iso: string) => iso.replace(/-/g, '');
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const describeEvent = (event: CalendarEvent) => [
+  `Processo: ${event.processo}`,
+  `Foro: ${event.foro}`,
+  `Documento: ${event.documento}`,
+  ...event.detalhes,
+  ...(event.pagina ? [`Página: ${event.pagina}`] : []),
+  ...(event.trecho ? [`Trecho: ${event.trecho}`] : []),
+  ...(event.link ? [`Abrir o trecho: ${event.link}`] : []),
+].join('\n');
+
+export const toIcs = (events: CalendarEvent[], calendarName: string) => {
+  const stamp = icsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//LegalFilter Pro//Prazos e Audiencias//PT-BR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  events.forEach(event => {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}@legal-filter-pro`, `DTSTAMP:${stamp}`);
+    // Audiências com horário usam hora local flutuante; prazos e audiências sem horário ocupam o dia inteiro.
+    if (event.hora) {
+      lines.push(`DTSTART:${icsDate(event.data)}T${event.hora.replace(':', '')}00`, 'DURATION:PT1H');
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${icsDate(event.data)}`, `DTEND;VALUE=DATE:${icsDate(addDays(event.data, 1))}`);
+    }
+    lines.push(
+      `SUMMARY:${escapeText(event.titulo)}`,
+      `DESCRIPTION:${escapeText(describeEvent(event))}`,
+      `CATEGORIES:${event.kind === 'prazo' ? 'Prazo' : 'Audiência'}`
+    );
+    if (event.link) lines.push(`URL:${event.link}`);
+    if (event.kind === 'prazo') {
+      lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.titulo)}`, 'TRIGGER:-P1D', 'END:VALARM');
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// O mesmo processo pode estar em mais de uma análise; no arquivo consolidado cada prazo ou audiência aparece uma vez.
+const eventKey = (event: CalendarEvent) => `${event.kind}-${onlyDigits(event.processo)}-${event.data}-${event.hora || ''}`;
+
+export const buildCalendar = (sources: CalendarSource[], calendarName: string, filterForos?: Set<string>, linkFor?: SnippetLinkBuilder) => {
+  const seen = new Set<string>();
+  const events = buildCalendarEvents(sources, filterForos, linkFor).filter(event => !seen.has(eventKey(event)) && !!seen.add(eventKey(event)));
+  return { events, ics: toIcs(events, calendarName) };
+};
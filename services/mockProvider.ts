@@ -0,0 +1,22 @@
+import { ExtractionProvider } from "../types";
+import { extractCnjProcesses } from "./cnjService";
+import { lookupCourt } from "./courtService";
+
+// Provedor determinístico para desenvolvimento: não faz chamadas de rede e responde sempre da mesma forma.
+export const mockProvider: ExtractionProvider = {
+  id: 'mock',
+  label: 'Simulado (Desenvolvimento)',
+
+  extractFromText: async (text, { searchList }) => JSON.stringify({
+    processes: extractCnjProcesses(text, searchList).map(p => ({
+      ...p,
+      foro: lookupCourt(p.processo)?.foro || p.foro,
+    })),
+  }),
+
+  extractFromFile: async () => JSON.stringify({
+    processes: [
+      { foro: 'Jaboticabal', processo: '1001821-85.2024.8.26.0291' },
+    ],
+  }),
+};
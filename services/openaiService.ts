@@ -0,0 +1,57 @@
+import { ExtractionProvider, OpenAiCompatibleConfig } from "../types";
+import { classifyError } from "./responseService";
+import { buildTextSystemPrompt, buildTextUserPrompt, buildModalityPrompt, MODALITY_SYSTEM_PROMPT, JSON_FORMAT_INSTRUCTIONS, DETAILED_JSON_FORMAT_INSTRUCTIONS } from "./prompts";
+
+const formatInstructions = (detailed?: boolean) => detailed ? DETAILED_JSON_FORMAT_INSTRUCTIONS : JSON_FORMAT_INSTRUCTIONS;
+
+// Qualquer servidor que implemente POST /chat/completions (vLLM, llama.cpp, Ollama, LM Studio, OpenAI).
+const chatCompletion = async (config: OpenAiCompatibleConfig, messages: unknown[], signal?: AbortSignal): Promise<string> => {
+  if (!config.baseUrl.trim()) throw new Error('Informe a URL do servidor compatível com OpenAI nas configurações.');
+
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw classifyError({
+      status: response.status,
+      message: `O servidor de IA respondeu ${response.status}: ${(await response.text()).slice(0, 200)}`,
+    });
+  }
+
+  const data = await response.json();
+  return data?.choices?.[0]?.message?.content || '';
+};
+
+export const createOpenAiProvider = (config: OpenAiCompatibleConfig): ExtractionProvider => ({
+  id: 'openai',
+  label: 'Servidor Compatível com OpenAI',
+
+  extractFromText: (text, { searchList, knownNumbers, detailed, signal }) => chatCompletion(config, [
+    { role: 'system', content: `${buildTextSystemPrompt(searchList, knownNumbers, detailed)}\n${formatInstructions(detailed)}` },
+    { role: 'user', content: buildTextUserPrompt(text) },
+  ], signal),
+
+  extractFromFile: (base64Data, mimeType, { searchList, detailed, signal }) => {
+    const dataUrl = `data:${mimeType};base64,${base64Data}`;
+    const attachment = mimeType.startsWith('image/')
+      ? { type: 'image_url', image_url: { url: dataUrl } }
+      : { type: 'file', file: { filename: 'documento.pdf', file_data: dataUrl } };
+
+    return chatCompletion(config, [
+      { role: 'system', content: `${MODALITY_SYSTEM_PROMPT}\n${formatInstructions(detailed)}` },
+      { role: 'user', content: [attachment, { type: 'text', text: buildModalityPrompt(mimeType, searchList, detailed) }] },
+    ], signal);
+  },
+});
@@ -0,0 +1,44 @@
+import { composeDocument, countPages, extractPages, highlightDocument, planSplit, splitDocument } from "./pdfOperations";
+import { PdfWorkerRequest, PdfWorkerResponse, ProgressCallback } from "./pdfWorkerProtocol";
+
+const ctx = self as unknown as Worker;
+const jobs = new Map<number, AbortController>();
+
+const post = (message: PdfWorkerResponse) => ctx.postMessage(message);
+
+const run = (request: Exclude<PdfWorkerRequest, { type: 'cancel' }>, onProgress: ProgressCallback, signal: AbortSignal) => {
+  switch (request.type) {
+    case 'extractPages':
+      return extractPages(request.params.file, onProgress, signal);
+    case 'countPages':
+      return countPages(request.params.file);
+    case 'planSplit':
+      return planSplit(request.params.file, request.params.strategy, onProgress, signal);
+    case 'split':
+      return splitDocument(request.params.file, request.params.plan, onProgress, signal);
+    case 'compose':
+      return composeDocument(request.params.sources, request.params.pages, request.params.bookmarks, onProgress, signal);
+    case 'highlight':
+      return highlightDocument(request.params.file, request.params.targets, onProgress, signal);
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<PdfWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    jobs.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  jobs.set(request.id, controller);
+  try {
+    const onProgress: ProgressCallback = (current, total) => post({ id: request.id, type: 'progress', current, total });
+    const result = await run(request, onProgress, controller.signal);
+    post({ id: request.id, type: 'result', result });
+  } catch (error: any) {
+    post({ id: request.id, type: 'error', message: error?.message || 'Erro ao processar o PDF.', aborted: controller.signal.aborted });
+  } finally {
+    jobs.delete(request.id);
+  }
+};
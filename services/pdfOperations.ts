@@ -0,0 +1,439 @@
+import * as pdfjsLib from 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.0.379/pdf.min.mjs';
+import { PDFDocument, PDFHexString, PDFName, degrees } from 'https://esm.sh/pdf-lib@1.17.1';
+import { ComposedPage, ComposeSource, HighlightTarget, PlannedPart, SplitStrategy } from '../types';
+import { HighlightResult, ProgressCallback, SplitPart } from './pdfWorkerProtocol';
+
+// @ts-ignore
+pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.0.379/pdf.worker.min.mjs';
+
+// Operações executadas dentro do worker de PDF; nenhuma delas depende do DOM.
+
+// Cancelar destrói a tarefa de carregamento do pdf.js, o que interrompe a página em andamento.
+export const extractPages = async (
+  file: Blob,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  signal?.throwIfAborted();
+  const arrayBuffer = await file.arrayBuffer();
+  signal?.throwIfAborted();
+  // @ts-ignore
+  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
+  const onAbort = () => loadingTask.destroy();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const pdf = await loadingTask.promise;
+    const numPages = pdf.numPages;
+    const pages: string[] = [];
+
+    for (let i = 1; i <= numPages; i++) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const pageText = textContent.items
+        .map((item: any) => item.str)
+        .join(' ');
+
+      pages.push(pageText);
+
+      if (onProgress) {
+        onProgress(i, numPages);
+      }
+    }
+
+    return pages;
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    loadingTask.destroy();
+  }
+};
+
+export const countPages = async (file: Blob): Promise<number> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const pdfDoc = await PDFDocument.load(arrayBuffer);
+  return pdfDoc.getPageCount();
+};
+
+const rangeLabel = (pages: number[]) =>
+  pages.length === 1 ? `Pág ${pages[0]}` : `Págs ${pages[0]}-${pages[pages.length - 1]}`;
+
+const pageSpan = (start: number, end: number) => Array.from({ length: end - start + 1 }, (_, idx) => start + idx);
+
+const numberedParts = (groups: number[][]): PlannedPart[] =>
+  groups.map((pages, idx) => ({ name: `Parte ${idx + 1} (${rangeLabel(pages)})`, pages }));
+
+const planFixed = (totalPages: number, pagesPerPart: number) => {
+  const size = Math.max(1, Math.floor(pagesPerPart));
+  const groups: number[][] = [];
+  for (let start = 1; start <= totalPages; start += size) {
+    groups.push(pageSpan(start, Math.min(start + size - 1, totalPages)));
+  }
+  return numberedParts(groups);
+};
+
+// Aceita "1-12, 13-40, 41-" e páginas avulsas ("5"); um intervalo aberto vai até a última página.
+export const parseRanges = (spec: string, totalPages: number): number[][] => {
+  const entries = spec.split(/[,;]/).map(entry => entry.trim()).filter(Boolean);
+  if (entries.length === 0) throw new Error('Informe ao menos um intervalo de páginas (ex.: 1-12, 13-40, 41-).');
+
+  return entries.map(entry => {
+    const match = entry.match(/^(\d+)\s*(?:-\s*(\d*))?$/);
+    if (!match) throw new Error(`Intervalo inválido: "${entry}".`);
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : match[2] === '' ? totalPages : Number(match[2]);
+    if (start < 1 || end > totalPages || start > end) {
+      throw new Error(`Intervalo fora do documento: "${entry}" (o PDF tem ${totalPages} páginas).`);
+    }
+    return pageSpan(start, end);
+  });
+};
+
+const sanitizeName = (title: string) => title.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Usa apenas os marcadores de primeiro nível; páginas antes do primeiro marcador formam uma parte inicial.
+const planBookmarks = async (pdf: any, totalPages: number, signal?: AbortSignal): Promise<PlannedPart[]> => {
+  const outline: any[] = (await pdf.getOutline()) || [];
+  const starts: { title: string; page: number }[] = [];
+
+  for (const item of outline) {
+    signal?.throwIfAborted();
+    const dest = typeof item.dest === 'string' ? await pdf.getDestination(item.dest) : item.dest;
+    if (!Array.isArray(dest) || dest.length === 0) continue;
+    const ref = dest[0];
+    const pageIndex = typeof ref === 'number' ? ref : await pdf.getPageIndex(ref);
+    if (!starts.some(start => start.page === pageIndex + 1)) {
+      starts.push({ title: sanitizeName(item.title || '') || `Marcador ${starts.length + 1}`, page: pageIndex + 1 });
+    }
+  }
+
+  if (starts.length === 0) throw new Error('O PDF não possui marcadores (bookmarks) de primeiro nível.');
+  starts.sort((a, b) => a.page - b.page);
+  if (starts[0].page > 1) starts.unshift({ title: 'Início', page: 1 });
+
+  return starts.map((start, idx) => {
+    const end = idx + 1 < starts.length ? starts[idx + 1].page - 1 : totalPages;
+    return { name: start.title, pages: pageSpan(start.page, end) };
+  });
+};
+
+const IMAGE_OPS = [pdfjsLib.OPS.paintImageXObject, pdfjsLib.OPS.paintInlineImageXObject, pdfjsLib.OPS.paintImageMaskXObject];
+
+// Uma página separadora não tem texto nem imagens; as páginas em branco são descartadas das partes.
+const planBlankSeparators = async (pdf: any, totalPages: number, onProgress?: ProgressCallback, signal?: AbortSignal) => {
+  const groups: number[][] = [];
+  let current: number[] = [];
+
+  for (let i = 1; i <= totalPages; i++) {
+    signal?.throwIfAborted();
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const hasText = textContent.items.some((item: any) => item.str?.trim());
+    const hasImages = !hasText && (await page.getOperatorList()).fnArray.some((fn: number) => IMAGE_OPS.includes(fn));
+
+    if (hasText || hasImages) {
+      current.push(i);
+    } else if (current.length > 0) {
+      groups.push(current);
+      current = [];
+    }
+    onProgress?.(i, totalPages);
+  }
+  if (current.length > 0) groups.push(current);
+
+  if (groups.length === 0) throw new Error('Todas as páginas do PDF estão em branco.');
+  return numberedParts(groups);
+};
+
+// O tamanho de cada página é medido isoladamente, com as fontes e imagens que ela usa. Como recursos
+// compartilhados entram em todas as medições, a soma superestima a parte final e o limite é respeitado,
+// exceto quando uma única página já passa do limite: ela vira uma parte sozinha, marcada como `oversize`.
+const planBySize = async (file: Blob, maxBytes: number, onProgress?: ProgressCallback, signal?: AbortSignal) => {
+  const source = await PDFDocument.load(await file.arrayBuffer());
+  const totalPages = source.getPageCount();
+  const sizes: number[] = [];
+
+  for (let i = 0; i < totalPages; i++) {
+    signal?.throwIfAborted();
+    const single = await PDFDocument.create();
+    const [copied] = await single.copyPages(source, [i]);
+    single.addPage(copied);
+    sizes.push((await single.save()).byteLength);
+    onProgress?.(i + 1, totalPages);
+  }
+
+  const parts: PlannedPart[] = [];
+  let pages: number[] = [];
+  let bytes = 0;
+  const flush = () => {
+    if (pages.length === 0) return;
+    parts.push({ name: `Parte ${parts.length + 1} (${rangeLabel(pages)})`, pages, estimatedBytes: bytes, ...(bytes > maxBytes && { oversize: true }) });
+    pages = [];
+    bytes = 0;
+  };
+
+  sizes.forEach((size, idx) => {
+    if (pages.length > 0 && bytes + size > maxBytes) flush();
+    pages.push(idx + 1);
+    bytes += size;
+  });
+  flush();
+
+  return parts;
+};
+
+export const planSplit = async (
+  file: Blob,
+  strategy: SplitStrategy,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<PlannedPart[]> => {
+  if (strategy.mode === 'size') {
+    if (!(strategy.maxBytes > 0)) throw new Error('Informe um tamanho máximo maior que zero.');
+    return planBySize(file, strategy.maxBytes, onProgress, signal);
+  }
+
+  // @ts-ignore
+  const loadingTask = pdfjsLib.getDocument({ data: await file.arrayBuffer() });
+  const onAbort = () => loadingTask.destroy();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const pdf = await loadingTask.promise;
+    const totalPages: number = pdf.numPages;
+
+    switch (strategy.mode) {
+      case 'fixed':
+        return planFixed(totalPages, strategy.pagesPerPart);
+      case 'ranges':
+        return numberedParts(parseRanges(strategy.ranges, totalPages));
+      case 'bookmarks':
+        return await planBookmarks(pdf, totalPages, signal);
+      case 'blank':
+        return await planBlankSeparators(pdf, totalPages, onProgress, signal);
+    }
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    loadingTask.destroy();
+  }
+};
+
+export const splitDocument = async (
+  file: Blob,
+  plan: PlannedPart[],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<SplitPart[]> => {
+  const arrayBuffer = await file.arrayBuffer();
+  signal?.throwIfAborted();
+  const mainPdfDoc = await PDFDocument.load(arrayBuffer);
+  const parts: SplitPart[] = [];
+
+  for (const planned of plan) {
+    signal?.throwIfAborted();
+    const newPdfDoc = await PDFDocument.create();
+    const copiedPages = await newPdfDoc.copyPages(mainPdfDoc, planned.pages.map(page => page - 1));
+    copiedPages.forEach(page => newPdfDoc.addPage(page));
+
+    const pdfBytes = await newPdfDoc.save();
+    parts.push({
+      name: planned.name,
+      blob: new Blob([pdfBytes], { type: 'application/pdf' }),
+      pageCount: planned.pages.length
+    });
+    onProgress?.(parts.length, plan.length);
+  }
+
+  return parts;
+};
+
+// pdf-lib não tem API de marcadores; o dicionário /Outlines é montado diretamente, um item por arquivo de origem.
+const addOutline = (doc: any, entries: { title: string; pageIndex: number }[]) => {
+  if (entries.length === 0) return;
+  const context = doc.context;
+  const outlinesRef = context.nextRef();
+  const itemRefs = entries.map(() => context.nextRef());
+
+  entries.forEach((entry, idx) => {
+    context.assign(itemRefs[idx], context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: outlinesRef,
+      Dest: [doc.getPage(entry.pageIndex).ref, 'Fit'],
+      ...(idx > 0 ? { Prev: itemRefs[idx - 1] } : {}),
+      ...(idx < entries.length - 1 ? { Next: itemRefs[idx + 1] } : {}),
+    }));
+  });
+
+  context.assign(outlinesRef, context.obj({
+    Type: 'Outlines',
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: entries.length,
+  }));
+  doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+};
+
+// As páginas de cada origem são copiadas em uma única chamada, para que fontes e imagens compartilhadas não se repitam.
+export const composeDocument = async (
+  sources: ComposeSource[],
+  pages: ComposedPage[],
+  bookmarks: boolean,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  if (pages.length === 0) throw new Error('Nenhuma página selecionada para o documento final.');
+  const output = await PDFDocument.create();
+  const copied = new Map<string, any>();
+
+  for (const [idx, source] of sources.entries()) {
+    signal?.throwIfAborted();
+    const wanted = pages.filter(p => p.sourceId === source.id).map(p => p.page);
+    if (wanted.length === 0) continue;
+    const doc = await PDFDocument.load(await source.blob.arrayBuffer());
+    const copies = await output.copyPages(doc, wanted.map(page => page - 1));
+    wanted.forEach((page, i) => copied.set(`${source.id}:${page}`, copies[i]));
+    onProgress?.(idx + 1, sources.length);
+  }
+
+  const names = new Map(sources.map(source => [source.id, source.name]));
+  const outline: { title: string; pageIndex: number }[] = [];
+  const marked = new Set<string>();
+  pages.forEach((composed, index) => {
+    const page = copied.get(`${composed.sourceId}:${composed.page}`);
+    if (!page) throw new Error(`Página ${composed.page} não encontrada no arquivo de origem.`);
+    if (composed.rotation) {
+      page.setRotation(degrees((page.getRotation().angle + composed.rotation) % 360));
+    }
+    output.addPage(page);
+    if (bookmarks && !marked.has(composed.sourceId)) {
+      marked.add(composed.sourceId);
+      outline.push({ title: names.get(composed.sourceId) || composed.sourceId, pageIndex: index });
+    }
+  });
+  addOutline(output, outline);
+
+  return new Blob([await output.save()], { type: 'application/pdf' });
+};
+
+interface TextItemBox {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface HighlightMatch {
+  target: HighlightTarget;
+  quads: number[][];
+}
+
+// Quadrilátero do trecho [from, to) de um item de texto, no espaço de usuário da página.
+// A posição de cada caractere é proporcional ao comprimento da string, o que basta para números.
+const segmentQuad = (item: TextItemBox, from: number, to: number) => {
+  const [a, b, c, d, e, f] = item.transform;
+  const ux = a / (Math.hypot(a, b) || 1);
+  const uy = b / (Math.hypot(a, b) || 1);
+  const vx = c / (Math.hypot(c, d) || 1);
+  const vy = d / (Math.hypot(c, d) || 1);
+  const height = item.height || Math.hypot(c, d);
+  const length = item.str.length || 1;
+  const start = (from / length) * item.width;
+  const end = (to / length) * item.width;
+  const corner = (along: number, up: number) => [e + ux * along + vx * up, f + uy * along + vy * up];
+
+  // Ordem das QuadPoints: superior esquerdo, superior direito, inferior esquerdo, inferior direito.
+  return [...corner(start, height), ...corner(end, height), ...corner(start, -height * 0.25), ...corner(end, -height * 0.25)];
+};
+
+const findHighlights = (items: TextItemBox[], targets: HighlightTarget[]): HighlightMatch[] => {
+  const positions: { item: number; char: number }[] = [];
+  let digits = '';
+  items.forEach((item, itemIdx) => {
+    for (let charIdx = 0; charIdx < item.str.length; charIdx++) {
+      const ch = item.str[charIdx];
+      if (ch >= '0' && ch <= '9') {
+        digits += ch;
+        positions.push({ item: itemIdx, char: charIdx });
+      }
+    }
+  });
+
+  const matches: HighlightMatch[] = [];
+  targets.forEach(target => {
+    const wanted = target.processo.replace(/\D/g, '');
+    if (wanted.length !== 20) return;
+    for (let found = digits.indexOf(wanted); found !== -1; found = digits.indexOf(wanted, found + wanted.length)) {
+      const spans = new Map<number, { from: number; to: number }>();
+      positions.slice(found, found + wanted.length).forEach(({ item, char }) => {
+        const span = spans.get(item);
+        spans.set(item, span ? { from: Math.min(span.from, char), to: Math.max(span.to, char + 1) } : { from: char, to: char + 1 });
+      });
+      matches.push({ target, quads: Array.from(spans.entries()).map(([item, span]) => segmentQuad(items[item], span.from, span.to)) });
+    }
+  });
+  return matches;
+};
+
+// Anotações /Highlight sem aparência própria: os leitores geram o realce a partir de QuadPoints e da cor.
+const addHighlightAnnotation = (doc: any, page: any, match: HighlightMatch) => {
+  const points = match.quads.flat();
+  const xs = points.filter((_, idx) => idx % 2 === 0);
+  const ys = points.filter((_, idx) => idx % 2 === 1);
+  const annotation = doc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Highlight',
+    Rect: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+    QuadPoints: points,
+    C: match.target.color,
+    CA: 0.45,
+    F: 4,
+    T: PDFHexString.fromText('LegalFilter Pro'),
+    Contents: PDFHexString.fromText(`Foro: ${match.target.foro}\nProcesso: ${match.target.processo}`),
+  });
+  page.node.addAnnot(doc.context.register(annotation));
+};
+
+export const highlightDocument = async (
+  file: Blob,
+  targets: HighlightTarget[],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<HighlightResult> => {
+  const arrayBuffer = await file.arrayBuffer();
+  // pdf.js pode transferir o buffer para o worker dele; pdf-lib recebe uma cópia.
+  const output = await PDFDocument.load(arrayBuffer.slice(0));
+  // @ts-ignore
+  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
+  const onAbort = () => loadingTask.destroy();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  let count = 0;
+
+  try {
+    const pdf = await loadingTask.promise;
+    for (let i = 1; i <= pdf.numPages; i++) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const items: TextItemBox[] = textContent.items.filter((item: any) => typeof item.str === 'string');
+      const matches = findHighlights(items, targets);
+      matches.forEach(match => addHighlightAnnotation(output, output.getPage(i - 1), match));
+      count += matches.length;
+      onProgress?.(i, pdf.numPages);
+    }
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    loadingTask.destroy();
+  }
+
+  return { blob: new Blob([await output.save()], { type: 'application/pdf' }), count };
+};
@@ -1,68 +1,164 @@
-
 import * as pdfjsLib from 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.0.379/pdf.min.mjs';
-import { PDFDocument } from 'https://esm.sh/pdf-lib@1.17.1';
+import { ComposedPage, ComposeSource, HighlightTarget, PlannedPart, SplitStrategy } from '../types';
+import { HighlightResult, PdfOperation, PdfWorkerOperations, PdfWorkerRequest, PdfWorkerResponse, ProgressCallback, SplitPart } from './pdfWorkerProtocol';
 
 // @ts-ignore
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.0.379/pdf.worker.min.mjs';
 
-export type ProgressCallback = (current: number, total: number) => void;
+export type { ProgressCallback, SplitPart };
+
+interface PendingJob {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+// Um único worker atende todas as operações; cada pedido é identificado por um id próprio.
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./pdf.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PdfWorkerResponse>) => {
+      const message = event.data;
+      const job = pending.get(message.id);
+      if (!job) return;
+      if (message.type === 'progress') {
+        job.onProgress?.(message.current, message.total);
+        return;
+      }
+      pending.delete(message.id);
+      if (message.type === 'result') job.resolve(message.result);
+      else job.reject(message.aborted ? new DOMException(message.message, 'AbortError') : new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      pending.forEach(job => job.reject(new Error(event.message || 'O worker de PDF falhou.')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+// Cancelar avisa o worker, que interrompe a operação, e rejeita imediatamente com o motivo do sinal.
+const runInWorker = <K extends PdfOperation>(
+  type: K,
+  params: PdfWorkerOperations[K]['params'],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<PdfWorkerOperations[K]['result']> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const id = nextJobId++;
+    const target = getWorker();
+    const onAbort = () => {
+      pending.delete(id);
+      target.postMessage({ id, type: 'cancel' } satisfies PdfWorkerRequest);
+      reject(signal?.reason);
+    };
+    const settle = <T>(fn: (value: T) => void) => (value: T) => {
+      signal?.removeEventListener('abort', onAbort);
+      fn(value);
+    };
+    pending.set(id, { resolve: settle(resolve), reject: settle(reject), onProgress });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    target.postMessage({ id, type, params } as PdfWorkerRequest);
+  });
+
+export const extractPagesFromPdf = (
+  file: File | Blob, 
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<string[]> => runInWorker('extractPages', { file }, onProgress, signal);
 
 export const extractTextFromPdf = async (
   file: File | Blob, 
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<string> => {
+  const pages = await extractPagesFromPdf(file, onProgress, signal);
+  return pages.map(page => page + '\n').join('');
+};
+
+export const renderPdfPage = async (file: File | Blob, pageNumber: number, scale = 1.5): Promise<string> => {
   const arrayBuffer = await file.arrayBuffer();
   // @ts-ignore
   const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
   const pdf = await loadingTask.promise;
-  const numPages = pdf.numPages;
-  let fullText = '';
-
-  for (let i = 1; i <= numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items
-      .map((item: any) => item.str)
-      .join(' ');
-    
-    fullText += pageText + '\n';
-    
-    if (onProgress) {
-      onProgress(i, numPages);
-    }
+  try {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+    return canvas.toDataURL('image/png');
+  } finally {
+    pdf.destroy();
   }
-
-  return fullText;
 };
 
-export const getPageCount = async (file: File | Blob): Promise<number> => {
+// Carrega o documento uma única vez e entrega as miniaturas página a página.
+export const renderPdfThumbnails = async (
+  file: File | Blob,
+  onThumbnail: (pageNumber: number, dataUrl: string) => void,
+  scale = 0.25,
+  signal?: AbortSignal
+): Promise<void> => {
   const arrayBuffer = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(arrayBuffer);
-  return pdfDoc.getPageCount();
+  // @ts-ignore
+  const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
+  const pdf = await loadingTask.promise;
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      if (signal?.aborted) return;
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+      onThumbnail(i, canvas.toDataURL('image/jpeg', 0.7));
+    }
+  } finally {
+    pdf.destroy();
+  }
 };
 
-export const splitPdf = async (file: File | Blob, pagesPerPart: number): Promise<{name: string, blob: Blob, pageCount: number}[]> => {
-  const arrayBuffer = await file.arrayBuffer();
-  const mainPdfDoc = await PDFDocument.load(arrayBuffer);
-  const totalPages = mainPdfDoc.getPageCount();
-  const parts = [];
+export const getPageCount = (file: File | Blob): Promise<number> => runInWorker('countPages', { file });
 
-  for (let i = 0; i < totalPages; i += pagesPerPart) {
-    const newPdfDoc = await PDFDocument.create();
-    const endPage = Math.min(i + pagesPerPart, totalPages);
-    
-    const pagesToCopy = Array.from({ length: endPage - i }, (_, index) => i + index);
-    const copiedPages = await newPdfDoc.copyPages(mainPdfDoc, pagesToCopy);
-    
-    copiedPages.forEach(page => newPdfDoc.addPage(page));
-    
-    const pdfBytes = await newPdfDoc.save();
-    parts.push({
-      name: `Parte ${parts.length + 1} (Págs ${i + 1}-${endPage})`,
-      blob: new Blob([pdfBytes], { type: 'application/pdf' }),
-      pageCount: endPage - i
-    });
-  }
+// Calcula as partes sem gravar nada, para que a interface mostre a prévia antes da divisão.
+export const planSplit = (
+  file: File | Blob,
+  strategy: SplitStrategy,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<PlannedPart[]> => runInWorker('planSplit', { file, strategy }, onProgress, signal);
 
-  return parts;
-};
+export const splitPdf = (
+  file: File | Blob,
+  plan: PlannedPart[],
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<SplitPart[]> => runInWorker('split', { file, plan }, onProgress, signal);
+
+export const composePdf = (
+  sources: ComposeSource[],
+  pages: ComposedPage[],
+  bookmarks: boolean,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<Blob> => runInWorker('compose', { sources, pages, bookmarks }, onProgress, signal);
+
+export const highlightPdf = (
+  file: File | Blob,
+  targets: HighlightTarget[],
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<HighlightResult> => runInWorker('highlight', { file, targets }, onProgress, signal);
@@ -0,0 +1,35 @@
+import { ComposedPage, ComposeSource, HighlightTarget, PlannedPart, SplitStrategy } from "../types";
+
+export type ProgressCallback = (current: number, total: number) => void;
+
+export interface SplitPart {
+  name: string;
+  blob: Blob;
+  pageCount: number;
+}
+
+export interface HighlightResult {
+  blob: Blob;
+  count: number;
+}
+
+// Cada operação declara os parâmetros que o worker recebe e o resultado que devolve.
+export interface PdfWorkerOperations {
+  extractPages: { params: { file: Blob }; result: string[] };
+  countPages: { params: { file: Blob }; result: number };
+  planSplit: { params: { file: Blob; strategy: SplitStrategy }; result: PlannedPart[] };
+  split: { params: { file: Blob; plan: PlannedPart[] }; result: SplitPart[] };
+  compose: { params: { sources: ComposeSource[]; pages: ComposedPage[]; bookmarks: boolean }; result: Blob };
+  highlight: { params: { file: Blob; targets: HighlightTarget[] }; result: HighlightResult };
+}
+
+export type PdfOperation = keyof PdfWorkerOperations;
+
+export type PdfWorkerRequest =
+  | { [K in PdfOperation]: { id: number; type: K; params: PdfWorkerOperations[K]['params'] } }[PdfOperation]
+  | { id: number; type: 'cancel' };
+
+export type PdfWorkerResponse =
+  | { id: number; type: 'progress'; current: number; total: number }
+  | { id: number; type: 'result'; result: PdfWorkerOperations[PdfOperation]['result'] }
+  | { id: number; type: 'error'; message: string; aborted: boolean };
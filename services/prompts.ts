@@ -0,0 +1,52 @@
+// Campos opcionais do modo detalhado; ficam de fora do prompt no modo econômico (só foro e número).
+const DETAIL_RULES = `Para cada processo, quando constarem do texto, informe também:
+       - "vara": a vara ou juízo (ex: "2ª Vara Cível");
+       - "classe": a classe processual (ex: "Procedimento Comum Cível");
+       - "assunto": o assunto principal;
+       - "partes": lista de {"nome", "polo"} com polo "autor" (requerente, exequente, apelante) ou "reu" (requerido, executado, apelado);
+       - "advogados": lista de {"nome", "oab"} com a OAB no formato "OAB/SP 123.456";
+       - "dataPublicacao": a data de publicação ou disponibilização no formato AAAA-MM-DD.
+       Omita qualquer campo que não esteja no texto; nunca invente dados.`;
+
+export const buildTextSystemPrompt = (searchList?: string, knownNumbers?: string[], detailed = false) => {
+  const basePrompt = searchList 
+    ? `Você é um assistente jurídico especializado em filtragem de documentos de alta precisão.
+       Busque EXCLUSIVAMENTE os seguintes números de processo no texto: ${searchList}.
+       Para cada um encontrado, identifique o Foro correspondente.
+       Regras:
+       1. Só retorne processos que estejam na lista de busca.
+       2. O "foro" deve ser o nome da cidade ou comarca limpo (ex: "Jaboticabal").
+       3. O número do processo deve ser formatado conforme o padrão CNJ (ex: "1001821-85.2024.8.26.0291").`
+    : `Você é um analista jurídico de IA. Extraia informações de todos os processos jurídicos encontrados no texto.
+       Regras:
+       1. Identifique o foro (cidade/comarca) e o número do processo.
+       2. O "foro" deve ser extraído e limpo (ex: "Jaboticabal").
+       3. O número do processo deve ser formatado sem espaços e com pontuação correta.
+       4. Ignore cabeçalhos e rodapés repetitivos, foque no conteúdo processual.`;
+
+  const prompt = detailed ? `${basePrompt}\n       ${DETAIL_RULES}` : basePrompt;
+
+  return knownNumbers && knownNumbers.length > 0
+    ? `${prompt}
+       Os seguintes números de processo já foram identificados no texto por leitura automática: ${knownNumbers.join(', ')}.
+       Para cada um deles, identifique o foro correspondente e inclua-o na resposta, além de qualquer outro processo que não esteja nesta lista.`
+    : prompt;
+};
+
+export const buildTextUserPrompt = (text: string) => `Texto do documento para análise:\n\n${text}`;
+
+export const MODALITY_SYSTEM_PROMPT = "Você é um especialista em OCR e visão computacional jurídica. Extraia processos e foros de documentos (imagens ou PDFs digitalizados) com precisão absoluta.";
+
+export const buildModalityPrompt = (mimeType: string, searchList?: string, detailed = false) => {
+  const prompt = searchList
+    ? `Analise visualmente este documento (${mimeType}) e busque EXCLUSIVAMENTE estes processos: ${searchList}. 
+     Para cada um, identifique o Foro correspondente. Retorne em JSON conforme o esquema.`
+    : `Analise visualmente este documento (${mimeType}) e extraia todos os números de processo e seus respectivos foros (comarcas). 
+     Retorne em JSON conforme o esquema.`;
+  return detailed ? `${prompt}\n     ${DETAIL_RULES}` : prompt;
+};
+
+// Provedores sem suporte a responseSchema recebem o formato esperado por escrito.
+export const JSON_FORMAT_INSTRUCTIONS = `Responda somente com um objeto JSON no formato {"processes": [{"foro": "Jaboticabal", "processo": "1001821-85.2024.8.26.0291"}]}, sem texto adicional.`;
+
+export const DETAILED_JSON_FORMAT_INSTRUCTIONS = `Responda somente com um objeto JSON no formato {"processes": [{"foro": "Jaboticabal", "processo": "1001821-85.2024.8.26.0291", "vara": "1ª Vara Cível", "classe": "Procedimento Comum Cível", "assunto": "Indenização por Dano Moral", "partes": [{"nome": "Fulano de Tal", "polo": "autor"}, {"nome": "Banco X S.A.", "polo": "reu"}], "advogados": [{"nome": "Beltrano", "oab": "OAB/SP 123.456"}], "dataPublicacao": "2024-05-10"}]}, sem texto adicional. Os campos além de foro e processo são opcionais.`;
@@ -0,0 +1,49 @@
+import { sleep } from "./responseService";
+
+export interface RateLimiter {
+  acquire: (signal?: AbortSignal) => Promise<void>;
+  setLimit: (requestsPerMinute: number) => void;
+}
+
+const WINDOW_MS = 60_000;
+
+// Rejeita assim que o sinal é abortado, sem esperar a vez do pedido na fila.
+const abortable = (turn: Promise<void>, signal?: AbortSignal) => {
+  if (!signal) return turn;
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    turn.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Janela deslizante de um minuto; pedidos excedentes esperam em fila pela vaga mais antiga. Limite 0 desativa.
+// Pedidos cancelados saem da fila sem ocupar vaga.
+export const createRateLimiter = (initialLimit = 0): RateLimiter => {
+  let limit = initialLimit;
+  const timestamps: number[] = [];
+  let chain: Promise<void> = Promise.resolve();
+
+  const waitForSlot = async (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    while (limit > 0) {
+      const now = Date.now();
+      while (timestamps.length > 0 && now - timestamps[0] >= WINDOW_MS) timestamps.shift();
+      if (timestamps.length < limit) break;
+      await sleep(timestamps[0] + WINDOW_MS - now, signal);
+    }
+    timestamps.push(Date.now());
+  };
+
+  return {
+    acquire: (signal?: AbortSignal) => {
+      const turn = chain.then(() => waitForSlot(signal));
+      chain = turn.catch(() => undefined);
+      return abortable(turn, signal);
+    },
+    setLimit: (requestsPerMinute: number) => {
+      limit = Math.max(0, Math.floor(requestsPerMinute));
+    },
+  };
+};
@@ -0,0 +1,188 @@
+import { ExtractionResult, LegalProcess, ProcessLawyer, ProcessParty } from "../types";
+import { FORO_NAO_IDENTIFICADO } from "./cnjService";
+
+export type ExtractionErrorKind = 'parse' | 'schema' | 'rate_limit' | 'network' | 'http' | 'cancelled';
+
+export class ExtractionError extends Error {
+  kind: ExtractionErrorKind;
+  retryable: boolean;
+
+  constructor(message: string, kind: ExtractionErrorKind, retryable = false) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+// Modelos locais costumam envolver o JSON em blocos de código ou em texto explicativo.
+const extractJsonPayload = (raw: string) => {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) return fenced[1].trim();
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  return start !== -1 && end > start ? raw.slice(start, end + 1) : raw.trim();
+};
+
+const asText = (value: unknown) =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : value ? [value] : [];
+
+// Aceita {nome, polo}, listas separadas por polo ({autor: [...], reu: [...]}) e nomes soltos.
+const parseParties = (record: Record<string, unknown>): ProcessParty[] => {
+  const fromPolo = (polo: ProcessParty['polo']) => (entry: unknown): ProcessParty | null => {
+    const nome = typeof entry === 'object' && entry ? asText((entry as Record<string, unknown>).nome) : asText(entry);
+    return nome ? { nome, polo } : null;
+  };
+  const partes = asList(record.partes).map(entry => {
+    if (!entry || typeof entry !== 'object') return null;
+    const party = entry as Record<string, unknown>;
+    const polo = /^(r[eé]u|passivo|requerid|executad|apelad)/i.test(asText(party.polo)) ? 'reu' : 'autor';
+    return fromPolo(polo)(party);
+  });
+  const split = [
+    ...asList(record.autor ?? record.autores).map(fromPolo('autor')),
+    ...asList(record.reu ?? record.reus).map(fromPolo('reu')),
+  ];
+  return [...partes, ...split].filter((p): p is ProcessParty => !!p);
+};
+
+const OAB_PATTERN = /OAB\s*\/?\s*[A-Z]{2}\s*[\d.]+[A-Z]?/i;
+
+const toLawyer = (nome: string, oab?: string): ProcessLawyer | null =>
+  nome ? (oab ? { nome, oab } : { nome }) : null;
+
+const parseLawyers = (value: unknown): ProcessLawyer[] =>
+  asList(value).map(entry => {
+    if (entry && typeof entry === 'object') {
+      const lawyer = entry as Record<string, unknown>;
+      return toLawyer(asText(lawyer.nome), asText(lawyer.oab));
+    }
+    // "Fulano de Tal (OAB/SP 123.456)"
+    const text = asText(entry);
+    return toLawyer(text.replace(OAB_PATTERN, '').replace(/[()\-–,\s]+$/, '').trim(), text.match(OAB_PATTERN)?.[0]);
+  }).filter((l): l is ProcessLawyer => !!l);
+
+// Campos do modo detalhado: todos opcionais, só entram no processo quando vierem preenchidos.
+const parseDetails = (record: Record<string, unknown>): Partial<LegalProcess> => {
+  const details: Partial<LegalProcess> = {};
+  const vara = asText(record.vara ?? record.juizo);
+  const classe = asText(record.classe);
+  const assunto = asText(record.assunto);
+  const dataPublicacao = asText(record.dataPublicacao ?? record.data_publicacao);
+  const partes = parseParties(record);
+  const advogados = parseLawyers(record.advogados);
+  if (vara) details.vara = vara;
+  if (classe) details.classe = classe;
+  if (assunto) details.assunto = assunto;
+  if (partes.length > 0) details.partes = partes;
+  if (advogados.length > 0) details.advogados = advogados;
+  if (dataPublicacao) details.dataPublicacao = dataPublicacao;
+  return details;
+};
+
+// Valida um item contra o SHARED_SCHEMA: processo é obrigatório; foro ausente é reparado como não identificado.
+const validateItem = (item: unknown, index: number): { process?: LegalProcess; warning?: string } => {
+  if (!item || typeof item !== 'object') {
+    return { warning: `Item ${index + 1} descartado: não é um objeto.` };
+  }
+  const record = item as Record<string, unknown>;
+  const processo = asText(record.processo ?? record.numero ?? record.process);
+  if (!processo) {
+    return { warning: `Item ${index + 1} descartado: sem número de processo.` };
+  }
+  const foro = asText(record.foro ?? record.comarca);
+  const details = parseDetails(record);
+  if (!foro) {
+    return { process: { foro: FORO_NAO_IDENTIFICADO, processo, ...details }, warning: `Item ${index + 1} (${processo}) sem foro; marcado como não identificado.` };
+  }
+  return { process: { foro, processo, ...details } };
+};
+
+export const parseExtractionResponse = (raw: string | undefined): ExtractionResult => {
+  if (!raw || !raw.trim()) {
+    throw new ExtractionError('O modelo retornou uma resposta vazia.', 'parse', true);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonPayload(raw));
+  } catch (error) {
+    throw new ExtractionError(`A resposta do modelo não é um JSON válido: ${raw.slice(0, 120)}`, 'parse', true);
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as Record<string, unknown> | null)?.processes;
+  if (!Array.isArray(list)) {
+    throw new ExtractionError('A resposta do modelo não contém a lista "processes" exigida pelo esquema.', 'schema', true);
+  }
+
+  const processes: LegalProcess[] = [];
+  const warnings: string[] = [];
+  list.forEach((item, index) => {
+    const { process, warning } = validateItem(item, index);
+    if (process) processes.push(process);
+    if (warning) warnings.push(warning);
+  });
+
+  return warnings.length > 0 ? { processes, warnings } : { processes };
+};
+
+// Converte erros de rede e de SDK em ExtractionError, marcando limites de taxa e falhas 5xx como transitórios.
+export const classifyError = (error: any): ExtractionError => {
+  if (error instanceof ExtractionError) return error;
+  if (error?.name === 'AbortError') return new ExtractionError('Processo cancelado.', 'cancelled');
+
+  const status = Number(error?.status ?? error?.code ?? error?.response?.status);
+  const message = String(error?.message || error || 'Erro desconhecido.');
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+    return new ExtractionError(`Limite de requisições do provedor atingido: ${message}`, 'rate_limit', true);
+  }
+  if (status >= 500 || /UNAVAILABLE|overloaded|timeout/i.test(message)) {
+    return new ExtractionError(`Falha temporária do provedor de IA: ${message}`, 'http', true);
+  }
+  if (error instanceof TypeError) {
+    return new ExtractionError(`Falha de rede ao contatar o provedor de IA: ${message}`, 'network', true);
+  }
+  return new ExtractionError(message, 'http', false);
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, error: ExtractionError) => void;
+  signal?: AbortSignal;
+}
+
+// A espera entre tentativas também é interrompida pelo cancelamento.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const withRetry = async <T>(fn: () => Promise<T>, { retries = 3, baseDelayMs = 1500, onRetry, signal }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      return await fn();
+    } catch (err) {
+      const error = signal?.aborted ? classifyError(signal.reason) : classifyError(err);
+      if (!error.retryable || attempt >= retries) throw error;
+      onRetry?.(attempt + 1, error);
+      const delay = baseDelayMs * 2 ** attempt * (error.kind === 'rate_limit' ? 2 : 1);
+      try {
+        await sleep(delay + Math.random() * baseDelayMs, signal);
+      } catch (abortError) {
+        throw classifyError(abortError);
+      }
+    }
+  }
+};
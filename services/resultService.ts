@@ -0,0 +1,98 @@
+import { ForoAliases, GroupedProcesses, HistoryItem, LegalProcess, SearchReport } from "../types";
+import { FORO_NAO_IDENTIFICADO, onlyDigits } from "./cnjService";
+import { lookupCourt } from "./courtService";
+import { canonicalizeForo, forosMatch, foroKey } from "./foroService";
+
+// Completa tribunal e segmento a partir do próprio número e confronta o foro informado com o código de origem.
+export const enrichProcess = (process: LegalProcess): LegalProcess => {
+  const court = lookupCourt(process.processo);
+  if (!court) return process;
+
+  const enriched: LegalProcess = { ...process, tribunal: court.tribunal, segmento: court.segmento };
+  if (!court.foro) return enriched;
+
+  const reported = process.foro?.trim();
+  if (!reported || reported === FORO_NAO_IDENTIFICADO) {
+    return { ...enriched, foro: court.foro, foroCodigo: court.foro };
+  }
+
+  return {
+    ...enriched,
+    foroCodigo: court.foro,
+    foroDivergente: !forosMatch(reported, court.foro),
+  };
+};
+
+// Aplica o dicionário de foros sobre o nome original, para que alterações nos apelidos possam ser refeitas.
+export const canonicalizeProcess = (process: LegalProcess, aliases: ForoAliases): LegalProcess => {
+  const original = process.foroOriginal ?? process.foro;
+  if (!original?.trim() || original === FORO_NAO_IDENTIFICADO) return process;
+  return { ...process, foroOriginal: original, foro: canonicalizeForo(original, aliases) };
+};
+
+export const enrichProcesses = (processes: LegalProcess[], aliases: ForoAliases = {}) =>
+  processes.map(p => canonicalizeProcess(enrichProcess(p), aliases));
+
+// Agrupa pela chave normalizada; o primeiro nome encontrado para cada chave dá título ao grupo.
+export const groupByForo = (processes: LegalProcess[]): GroupedProcesses => {
+  const grouped: GroupedProcesses = {};
+  const titles = new Map<string, string>();
+  processes.forEach((p) => {
+    const name = p.foro?.trim() || FORO_NAO_IDENTIFICADO;
+    const key = foroKey(name) || name;
+    if (!titles.has(key)) titles.set(key, name);
+    const foro = titles.get(key)!;
+    if (!grouped[foro]) grouped[foro] = [];
+    if (!grouped[foro].includes(p.processo)) grouped[foro].push(p.processo);
+  });
+  return grouped;
+};
+
+export const processesFromResults = (results: GroupedProcesses): LegalProcess[] =>
+  Object.entries(results).flatMap(([foro, processos]) => processos.map(processo => ({ foro, processo })));
+
+// O relatório da lista de busca guarda processos com foro, então também segue o dicionário.
+const regroupSearchReport = (report: SearchReport, aliases: ForoAliases): SearchReport => ({
+  ...report,
+  found: report.found.map(p => canonicalizeProcess(p, aliases)),
+  unrequested: report.unrequested.map(p => canonicalizeProcess(p, aliases)),
+});
+
+export const regroupResults = <T extends { results: GroupedProcesses; processes?: LegalProcess[]; searchReport?: SearchReport }>(item: T, aliases: ForoAliases): T => {
+  const processes = (item.processes ?? processesFromResults(item.results)).map(p => canonicalizeProcess(p, aliases));
+  const searchReport = item.searchReport && regroupSearchReport(item.searchReport, aliases);
+  return { ...item, processes, results: groupByForo(processes), ...(searchReport && { searchReport }) };
+};
+
+// Acrescenta processos confirmados manualmente a um item já agrupado.
+export const appendProcesses = <T extends { results: GroupedProcesses; processes?: LegalProcess[] }>(item: T, added: LegalProcess[]): T => {
+  const processes = [...(item.processes ?? processesFromResults(item.results)), ...added];
+  return { ...item, processes, results: groupByForo(processes) };
+};
+
+export const regroupHistory = (history: HistoryItem[], aliases: ForoAliases) =>
+  history.map(item => regroupResults(item, aliases));
+
+const formatPublicationDate = (value: string) => {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return iso ? `${iso[3]}/${iso[2]}/${iso[1]}` : value;
+};
+
+// Campos do modo detalhado como pares rótulo/valor, na ordem usada na tela e nas exportações.
+export const describeProcessDetails = (process?: LegalProcess): { label: string; value: string }[] => {
+  if (!process) return [];
+  const names = (polo: 'autor' | 'reu') => (process.partes || []).filter(p => p.polo === polo).map(p => p.nome).join('; ');
+  const entries = [
+    { label: 'Vara', value: process.vara || '' },
+    { label: 'Classe', value: process.classe || '' },
+    { label: 'Assunto', value: process.assunto || '' },
+    { label: 'Autor', value: names('autor') },
+    { label: 'Réu', value: names('reu') },
+    { label: 'Advogados', value: (process.advogados || []).map(a => a.oab ? `${a.nome} (${a.oab})` : a.nome).join('; ') },
+    { label: 'Publicação', value: process.dataPublicacao ? formatPublicationDate(process.dataPublicacao) : '' },
+  ];
+  return entries.filter(entry => entry.value);
+};
+
+export const indexByNumber = (processes: LegalProcess[] = []) =>
+  new Map<string, LegalProcess>(processes.map(p => [onlyDigits(p.processo), p]));
@@ -0,0 +1,75 @@
+import { LegalProcess, NearMatch, SearchReport } from "../types";
+import { onlyDigits, parseSearchList } from "./cnjService";
+
+const uniqueByDigits = (processes: LegalProcess[]) => {
+  const unique = new Map<string, LegalProcess>();
+  processes.forEach(p => {
+    const digits = onlyDigits(p.processo);
+    if (!unique.has(digits)) unique.set(digits, p);
+  });
+  return unique;
+};
+
+// `matched` é o resultado filtrado da extração; `present` traz tudo o que o documento cita, sem filtro.
+// Um número pedido conta como encontrado se aparecer em qualquer um dos dois, com preferência pelos dados de `matched`.
+export const buildSearchReport = (searchList: string, matched: LegalProcess[], present: LegalProcess[]): SearchReport => {
+  const { numbers, unparsed } = parseSearchList(searchList);
+  const requested = new Set(numbers.map(onlyDigits));
+  const known = uniqueByDigits([...matched, ...present]);
+
+  return {
+    requested: numbers,
+    found: numbers.filter(n => known.has(onlyDigits(n))).map(n => known.get(onlyDigits(n))!),
+    notFound: numbers.filter(n => !known.has(onlyDigits(n))),
+    unrequested: Array.from(known.entries()).filter(([digits]) => !requested.has(digits)).map(([, p]) => p),
+    unparsed,
+  };
+};
+
+export const rejectNearMatch = (report: SearchReport, matchId: string): SearchReport => ({
+  ...report,
+  nearMatches: report.nearMatches?.filter(m => m.id !== matchId),
+});
+
+// Confirmar uma correspondência move o número pedido para os encontrados e descarta as demais sugestões para ele.
+export const confirmNearMatch = (report: SearchReport, match: NearMatch, process: LegalProcess): SearchReport => ({
+  ...report,
+  found: [...report.found, process],
+  notFound: report.notFound.filter(n => n !== match.requested),
+  nearMatches: report.nearMatches?.filter(m => m.requested !== match.requested),
+});
+
+const pagesLabel = (process: LegalProcess) => {
+  const pages = (process.ocorrencias || []).map(oc => oc.pagina);
+  return pages.length > 0 ? ` (pág. ${pages.join(', ')})` : ' (página não identificada)';
+};
+
+export const formatSearchReport = (report: SearchReport, name: string) => {
+  let text = `RELATÓRIO DA LISTA DE BUSCA\n`;
+  text += `Documento: ${name}\n`;
+  text += `Gerado em: ${new Date().toLocaleString('pt-BR')}\n`;
+  text += `Pedidos: ${report.requested.length} • Encontrados: ${report.found.length} • Não encontrados: ${report.notFound.length}\n`;
+  text += `=====================================\n\n`;
+
+  text += `ENCONTRADOS (${report.found.length})\n-------------------------------------\n`;
+  report.found.forEach(p => text += `  - ${p.processo} [${p.foro}]${pagesLabel(p)}\n`);
+
+  text += `\nNÃO ENCONTRADOS (${report.notFound.length})\n-------------------------------------\n`;
+  report.notFound.forEach(n => text += `  - ${n}\n`);
+
+  text += `\nENCONTRADOS SEM TEREM SIDO PEDIDOS (${report.unrequested.length})\n-------------------------------------\n`;
+  report.unrequested.forEach(p => text += `  - ${p.processo} [${p.foro}]${pagesLabel(p)}\n`);
+
+  if (report.nearMatches && report.nearMatches.length > 0) {
+    text += `\nPOSSÍVEIS CORRESPONDÊNCIAS COM AVARIA DE OCR, A CONFIRMAR (${report.nearMatches.length})\n-------------------------------------\n`;
+    report.nearMatches.forEach(m => {
+      text += `  - ${m.requested} ~ "${m.original}" (${Math.round(m.similarity * 100)}%${m.pagina ? `, pág. ${m.pagina}` : ''})\n`;
+    });
+  }
+
+  if (report.unparsed.length > 0) {
+    text += `\nENTRADAS DA LISTA SEM NÚMERO CNJ RECONHECÍVEL (${report.unparsed.length})\n-------------------------------------\n`;
+    report.unparsed.forEach(entry => text += `  - ${entry}\n`);
+  }
+  return text;
+};
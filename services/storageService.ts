@@ -0,0 +1,264 @@
+import { HistoryItem, WorkspaceFile } from "../types";
+
+const DB_NAME = 'legal_filter_pro';
+const DB_VERSION = 2;
+const LEGACY_HISTORY_KEY = 'legal_filter_history';
+// Cópia do texto bruto quando o histórico antigo não pôde ser lido, para não perder o único exemplar.
+const LEGACY_HISTORY_BACKUP_KEY = 'legal_filter_history_backup';
+
+const STORES = {
+  workspace: 'workspace',
+  history: 'history',
+  documents: 'documents',
+  meta: 'meta',
+  workspaceBlobs: 'workspaceBlobs',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+export interface StoredDocument {
+  id: string;
+  blob: Blob;
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  documentsBytes: number;
+  workspaceBytes: number;
+  historyCount: number;
+}
+
+// Cada versão do esquema aplica apenas os passos que ainda faltam ao banco existente.
+const migrations: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore(STORES.workspace, { keyPath: 'id' });
+    db.createObjectStore(STORES.history, { keyPath: 'id' });
+    db.createObjectStore(STORES.documents, { keyPath: 'id' });
+    db.createObjectStore(STORES.meta);
+  },
+  // Os PDFs do workspace saem do registro do arquivo, que muda a cada atualização de status.
+  2: (db, tx) => {
+    db.createObjectStore(STORES.workspaceBlobs, { keyPath: 'id' });
+    const blobs = tx.objectStore(STORES.workspaceBlobs);
+    tx.objectStore(STORES.workspace).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const { blob, ...file } = cursor.value;
+      if (blob) {
+        blobs.put({ id: file.id, blob });
+        cursor.update(file);
+      }
+      cursor.continue();
+    };
+  },
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          migrations[version]?.(db, request.transaction!);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>;
+};
+
+interface SyncedEntry<T> {
+  value: T;
+  index: number;
+}
+
+// Último estado gravado de cada coleção. O estado do React é imutável, então um item com a mesma referência não mudou.
+const synced: Record<string, Map<string, SyncedEntry<unknown>>> = {};
+
+const remember = <T>(collection: string, entries: [string, T][]) => {
+  synced[collection] = new Map(entries.map(([id, value], index) => [id, { value, index }]));
+};
+
+interface SyncPlan<T> {
+  changed: [string, T, number][];
+  added: Set<string>;
+  removed: string[];
+  rollback: () => void;
+}
+
+// Compara com o último estado gravado; `trackOrder` também regrava os itens que mudaram de posição.
+const planSync = <T>(collection: string, entries: [string, T][], trackOrder = false): SyncPlan<T> => {
+  const previous = synced[collection] ?? new Map<string, SyncedEntry<unknown>>();
+  const next = new Map<string, SyncedEntry<unknown>>(entries.map(([id, value], index) => [id, { value, index }]));
+  const changed = entries
+    .map(([id, value], index): [string, T, number] => [id, value, index])
+    .filter(([id, value, index]) => {
+      const before = previous.get(id);
+      return !before || before.value !== value || (trackOrder && before.index !== index);
+    });
+  synced[collection] = next;
+  return {
+    changed,
+    added: new Set(entries.map(([id]) => id).filter(id => !previous.has(id))),
+    removed: Array.from(previous.keys()).filter(id => !next.has(id)),
+    // Se a gravação falhar, os itens voltam a contar como pendentes na próxima chamada.
+    rollback: () => { synced[collection] = previous; },
+  };
+};
+
+const applyPlan = async <T>(plan: SyncPlan<T>, tx: IDBTransaction, write: (tx: IDBTransaction, id: string, value: T, index: number) => void, remove: (tx: IDBTransaction, id: string) => void) => {
+  plan.changed.forEach(([id, value, index]) => write(tx, id, value, index));
+  plan.removed.forEach(id => remove(tx, id));
+  try {
+    await transactionDone(tx);
+  } catch (e) {
+    plan.rollback();
+    throw e;
+  }
+};
+
+// Importa o histórico salvo em localStorage por versões anteriores e remove a chave antiga.
+const migrateLegacyHistory = async () => {
+  const db = await openDb();
+  const migrated = await requestToPromise(db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get('legacyHistoryMigrated'));
+  if (migrated) return;
+
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  let items: HistoryItem[] = [];
+  if (saved) {
+    try {
+      items = JSON.parse(saved);
+    } catch (e) {
+      // Sem conseguir ler, a chave antiga fica preservada numa cópia e a migração segue sem ela.
+      console.error("Erro ao migrar histórico do localStorage");
+      localStorage.setItem(LEGACY_HISTORY_BACKUP_KEY, saved);
+    }
+  }
+  const tx = db.transaction([STORES.history, STORES.meta], 'readwrite');
+  items.forEach(item => tx.objectStore(STORES.history).put(item));
+  tx.objectStore(STORES.meta).put(true, 'legacyHistoryMigrated');
+  await transactionDone(tx);
+  if (saved) localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  await migrateLegacyHistory();
+  const items = (await getAll<HistoryItem>(STORES.history)).sort((a, b) => b.timestamp - a.timestamp);
+  remember(STORES.history, items.map(item => [item.id, item]));
+  return items;
+};
+
+// Grava só as análises novas ou alteradas e apaga as removidas.
+export const saveHistory = async (history: HistoryItem[]) => {
+  const plan = planSync(STORES.history, history.map(item => [item.id, item]));
+  if (plan.changed.length === 0 && plan.removed.length === 0) return;
+  const db = await openDb();
+  await applyPlan(plan, db.transaction(STORES.history, 'readwrite'),
+    (tx, _id, item) => tx.objectStore(STORES.history).put(item),
+    (tx, id) => tx.objectStore(STORES.history).delete(id));
+};
+
+type StoredWorkspaceFile = Omit<WorkspaceFile, 'blob'> & { order?: number; blob?: Blob };
+
+// Arquivos interrompidos ou enfileirados antes de um recarregamento voltam a ficar pendentes.
+export const loadWorkspace = async (): Promise<WorkspaceFile[]> => {
+  const [records, blobs] = await Promise.all([
+    getAll<StoredWorkspaceFile>(STORES.workspace),
+    getAll<StoredDocument>(STORES.workspaceBlobs),
+  ]);
+  const blobById = new Map<string, Blob>(blobs.map(doc => [doc.id, doc.blob]));
+  const files = records
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map(({ order, blob, ...file }): WorkspaceFile => ({
+      ...file,
+      blob: blobById.get(file.id) || blob!,
+      status: file.status === 'processing' || file.status === 'queued' ? 'idle' : file.status,
+    }))
+    .filter(file => !!file.blob);
+  remember(STORES.workspace, files.map(file => [file.id, file]));
+  return files;
+};
+
+// O registro do arquivo é regravado a cada mudança de status; o PDF só quando o arquivo entra ou sai do workspace.
+export const saveWorkspace = async (files: WorkspaceFile[]) => {
+  const plan = planSync(STORES.workspace, files.map(file => [file.id, file]), true);
+  if (plan.changed.length === 0 && plan.removed.length === 0) return;
+  const db = await openDb();
+  await applyPlan(plan, db.transaction([STORES.workspace, STORES.workspaceBlobs], 'readwrite'),
+    (tx, id, file, order) => {
+      const { blob, ...record } = file;
+      tx.objectStore(STORES.workspace).put({ ...record, order });
+      if (plan.added.has(id)) tx.objectStore(STORES.workspaceBlobs).put({ id, blob });
+    },
+    (tx, id) => {
+      tx.objectStore(STORES.workspace).delete(id);
+      tx.objectStore(STORES.workspaceBlobs).delete(id);
+    });
+};
+
+export const loadDocuments = async (): Promise<Record<string, Blob>> => {
+  const documents = await getAll<StoredDocument>(STORES.documents);
+  remember(STORES.documents, documents.map(doc => [doc.id, doc.blob]));
+  return Object.fromEntries(documents.map(doc => [doc.id, doc.blob]));
+};
+
+export const saveDocuments = async (documents: Record<string, Blob>) => {
+  const plan = planSync(STORES.documents, Object.entries(documents));
+  if (plan.changed.length === 0 && plan.removed.length === 0) return;
+  const db = await openDb();
+  await applyPlan(plan, db.transaction(STORES.documents, 'readwrite'),
+    (tx, id, blob) => tx.objectStore(STORES.documents).put({ id, blob }),
+    (tx, id) => tx.objectStore(STORES.documents).delete(id));
+};
+
+export const getStorageUsage = async (
+  workspace: WorkspaceFile[],
+  documents: Record<string, Blob>,
+  history: HistoryItem[]
+): Promise<StorageUsage> => {
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+  return {
+    usedBytes: estimate.usage ?? 0,
+    quotaBytes: estimate.quota ?? 0,
+    documentsBytes: Object.values(documents).reduce((acc, blob) => acc + blob.size, 0),
+    workspaceBytes: workspace.reduce((acc, file) => acc + file.blob.size, 0),
+    historyCount: history.length,
+  };
+};
+
+// Remove documentos originais que nenhum item do histórico referencia mais.
+export const pruneDocuments = (documents: Record<string, Blob>, history: HistoryItem[]) => {
+  const referenced = new Set(history.map(item => item.sourceId).filter(Boolean));
+  return Object.fromEntries(Object.entries(documents).filter(([id]) => referenced.has(id)));
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+};
@@ -0,0 +1,207 @@
+import { GroupedProcesses, HistoryItem, LegalProcess } from "../types";
+import { onlyDigits, validateCnj } from "./cnjService";
+import { lookupCourt } from "./courtService";
+import { indexByNumber } from "./resultService";
+import { createZip } from "./zipService";
+
+export type TableSource = Pick<HistoryItem, 'name' | 'timestamp' | 'results' | 'processes'>;
+
+export interface ExportRow {
+  processo: string;
+  foro: string;
+  tribunal: string;
+  documento: string;
+  paginas: string;
+  dataExtracao: string;
+  validacao: string;
+  vara: string;
+  classe: string;
+  assunto: string;
+  autores: string;
+  reus: string;
+  advogados: string;
+  dataPublicacao: string;
+}
+
+const COLUMNS: { key: keyof ExportRow; label: string }[] = [
+  { key: 'processo', label: 'Processo' },
+  { key: 'foro', label: 'Foro' },
+  { key: 'tribunal', label: 'Tribunal' },
+  { key: 'documento', label: 'Documento de Origem' },
+  { key: 'paginas', label: 'Página(s)' },
+  { key: 'dataExtracao', label: 'Data da Extração' },
+  { key: 'validacao', label: 'Validação' },
+  { key: 'vara', label: 'Vara/Juízo' },
+  { key: 'classe', label: 'Classe' },
+  { key: 'assunto', label: 'Assunto' },
+  { key: 'autores', label: 'Autor(es)' },
+  { key: 'reus', label: 'Réu(s)' },
+  { key: 'advogados', label: 'Advogados' },
+  { key: 'dataPublicacao', label: 'Data de Publicação' },
+];
+
+const validationLabel = (processo: string) => {
+  const validation = validateCnj(processo);
+  return validation.valido ? 'Válido' : `Inválido: ${validation.motivo}`;
+};
+
+const partyNames = (info: LegalProcess | undefined, polo: 'autor' | 'reu') =>
+  (info?.partes || []).filter(p => p.polo === polo).map(p => p.nome).join('; ');
+
+// Uma linha por processo e documento; os detalhes vêm de `processes` quando o item os tem.
+export const buildExportRows = (items: TableSource[], filterForos?: Set<string>): ExportRow[] =>
+  items.flatMap(item => {
+    const details = indexByNumber(item.processes);
+    const dataExtracao = new Date(item.timestamp).toLocaleString('pt-BR');
+
+    return Object.entries(item.results)
+      .filter(([foro]) => !filterForos || filterForos.has(foro))
+      .flatMap(([foro, processos]) => processos.map(processo => {
+        const info = details.get(onlyDigits(processo));
+        return {
+          processo,
+          foro,
+          tribunal: info?.tribunal || lookupCourt(processo)?.tribunal || '',
+          documento: item.name,
+          paginas: (info?.ocorrencias || []).map(oc => oc.pagina).join(', '),
+          dataExtracao,
+          validacao: validationLabel(processo),
+          vara: info?.vara || '',
+          classe: info?.classe || '',
+          assunto: info?.assunto || '',
+          autores: partyNames(info, 'autor'),
+          reus: partyNames(info, 'reu'),
+          advogados: (info?.advogados || []).map(a => a.oab ? `${a.nome} (${a.oab})` : a.nome).join('; '),
+          dataPublicacao: info?.dataPublicacao || '',
+        };
+      }));
+  });
+
+// Valores que começam com =, +, -, @, tab ou CR seriam avaliados como fórmula pelo Excel; o apóstrofo os mantém como texto.
+const csvCell = (raw: string) => {
+  const value = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// UTF-8 com BOM e ponto e vírgula, o formato que o Excel em português abre sem assistente de importação.
+export const toCsv = (rows: ExportRow[]): Blob => {
+  const lines = [
+    COLUMNS.map(col => csvCell(col.label)).join(';'),
+    ...rows.map(row => COLUMNS.map(col => csvCell(row[col.key])).join(';')),
+  ];
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+const xmlEscape = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+type Cell = string | number;
+
+const sheetXml = (rows: Cell[][]) => {
+  const body = rows.map((cells, r) => {
+    const xmlCells = cells.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : '';
+      return typeof cell === 'number'
+        ? `<c r="${ref}"${style}><v>${cell}</v></c>`
+        : `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(cell)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${xmlCells}</row>`;
+  }).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+};
+
+// Nomes de planilha: até 31 caracteres, sem []:*?/\ e sem repetição.
+const sheetNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map(name => {
+    const base = (name.replace(/[\[\]:*?\/\\]/g, ' ').trim() || 'Planilha').slice(0, 31);
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      candidate = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+const summaryRows = (rows: ExportRow[], byForo: Map<string, ExportRow[]>): Cell[][] => [
+  ['Foro', 'Processos', 'Válidos', 'Inválidos', 'Documentos'],
+  ...Array.from(byForo.entries()).map(([foro, foroRows]) => {
+    const valid = foroRows.filter(row => row.validacao === 'Válido').length;
+    return [foro, foroRows.length, valid, foroRows.length - valid, new Set(foroRows.map(row => row.documento)).size];
+  }),
+  ['Total', rows.length, rows.filter(row => row.validacao === 'Válido').length, rows.filter(row => row.validacao !== 'Válido').length, new Set(rows.map(row => row.documento)).size],
+];
+
+// XLSX nativo (SpreadsheetML em ZIP): uma planilha de resumo seguida de uma por foro.
+export const toXlsx = (rows: ExportRow[]): Blob => {
+  const byForo = new Map<string, ExportRow[]>();
+  [...rows].sort((a, b) => a.foro.localeCompare(b.foro, 'pt-BR')).forEach(row => {
+    if (!byForo.has(row.foro)) byForo.set(row.foro, []);
+    byForo.get(row.foro)!.push(row);
+  });
+
+  const sheets: { name: string; rows: Cell[][] }[] = [
+    { name: 'Resumo', rows: summaryRows(rows, byForo) },
+    ...Array.from(byForo.entries()).map(([foro, foroRows]) => ({
+      name: foro,
+      rows: [COLUMNS.map(col => col.label), ...foroRows.map(row => COLUMNS.map(col => row[col.key]))],
+    })),
+  ];
+  const names = sheetNames(sheets.map(sheet => sheet.name));
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names.map((name, i) => `<sheet name="${xmlEscape(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/styles.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+    },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(sheet.rows) })),
+  ]);
+};
+
+export type TableFormat = 'csv' | 'xlsx';
+
+export const buildTable = (items: TableSource[], format: TableFormat, filterForos?: Set<string>): Blob => {
+  const rows = buildExportRows(items, filterForos);
+  return format === 'csv' ? toCsv(rows) : toXlsx(rows);
+};
+
+export const resultsAsSource = (name: string, results: GroupedProcesses, processes?: LegalProcess[], timestamp = Date.now()): TableSource =>
+  ({ name, timestamp, results, processes });
@@ -2,6 +2,33 @@
 export interface LegalProcess {
   foro: string;
   processo: string;
+  tribunal?: string;
+  segmento?: string;
+  foroOriginal?: string;
+  foroCodigo?: string;
+  foroDivergente?: boolean;
+  ocorrencias?: ProcessOccurrence[];
+  vara?: string;
+  classe?: string;
+  assunto?: string;
+  partes?: ProcessParty[];
+  advogados?: ProcessLawyer[];
+  dataPublicacao?: string;
+}
+
+export interface ProcessParty {
+  nome: string;
+  polo: 'autor' | 'reu';
+}
+
+export interface ProcessLawyer {
+  nome: string;
+  oab?: string;
+}
+
+export interface ProcessOccurrence {
+  pagina: number;
+  trecho: string;
 }
 
 export interface GroupedProcesses {
@@ -10,6 +37,7 @@ export interface GroupedProcesses {
 
 export interface ExtractionResult {
   processes: LegalProcess[];
+  warnings?: string[];
 }
 
 export interface WorkspaceFile {
@@ -17,9 +45,14 @@ export interface WorkspaceFile {
   name: string;
   blob: Blob;
   pageCount: number;
-  status: 'idle' | 'processing' | 'completed' | 'error';
+  status: 'idle' | 'queued' | 'processing' | 'completed' | 'error' | 'cancelled';
   selected: boolean;
+  error?: string;
   results?: GroupedProcesses;
+  processes?: LegalProcess[];
+  searchReport?: SearchReport;
+  // Análise do histórico gerada pela última execução; publicações e prazos ficam só nela.
+  historyId?: string;
 }
 
 export interface HistoryItem {
@@ -27,4 +60,155 @@ export interface HistoryItem {
   name: string;
   timestamp: number;
   results: GroupedProcesses;
+  processes?: LegalProcess[];
+  sourceId?: string;
+  error?: string;
+  warnings?: string[];
+  searchReport?: SearchReport;
+  publications?: DjePublication[];
+  deadlines?: ProcessDeadline[];
+}
+
+// Prazo processual contado em dias úteis (CPC, arts. 219, 220 e 224); datas em AAAA-MM-DD.
+export interface ProcessDeadline {
+  processo: string;
+  disponibilizacao: string;
+  publicacao: string;
+  inicio: string;
+  vencimento: string;
+  dias: number;
+  tipo?: string;
+  uf?: string;
+}
+
+// Feriado do calendário forense. `data` é "MM-DD" (todo ano), "AAAA-MM-DD" (só naquele ano)
+// ou "P+N"/"P-N" (dias a partir do Domingo de Páscoa); sem `uf`, vale para todo o país.
+export interface CourtHoliday {
+  id: string;
+  nome: string;
+  data: string;
+  uf?: string;
+}
+
+// Publicação de um Diário da Justiça Eletrônico: texto integral, processo e advogados intimados.
+export interface DjePublication {
+  id: string;
+  processo: string;
+  paginas: number[];
+  texto: string;
+  advogados: ProcessLawyer[];
+}
+
+// Confronto entre a lista de busca e o documento: pedidos encontrados, pedidos ausentes e números achados sem terem sido pedidos.
+export interface SearchReport {
+  requested: string[];
+  found: LegalProcess[];
+  notFound: string[];
+  unrequested: LegalProcess[];
+  unparsed: string[];
+  nearMatches?: NearMatch[];
+}
+
+// Número da lista que só aparece no texto com avarias de OCR; aguarda confirmação do usuário.
+export interface NearMatch {
+  id: string;
+  requested: string;
+  candidate: string;
+  original: string;
+  similarity: number;
+  checkDigitsOk: boolean;
+  pagina?: number;
+  trecho?: string;
+}
+
+export type ExtractionEngine = 'ai' | 'local' | 'hybrid';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export interface AppSettings {
+  engine: ExtractionEngine;
+  provider: ProviderId;
+  openai: OpenAiCompatibleConfig;
+  concurrency: number;
+  requestsPerMinute: number;
+  // Quando desligado, o modelo devolve só foro e número (respostas menores e mais baratas).
+  detailedExtraction: boolean;
+}
+
+export interface ExtractionOptions {
+  searchList?: string;
+  knownNumbers?: string[];
+  detailed?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ExtractionProvider {
+  id: ProviderId;
+  label: string;
+  // Ambos retornam o texto bruto da resposta; a validação contra o esquema fica em responseService.
+  extractFromText: (text: string, options: ExtractionOptions) => Promise<string>;
+  extractFromFile: (base64Data: string, mimeType: string, options: ExtractionOptions) => Promise<string>;
+}
+
+export interface CnjValidation {
+  valido: boolean;
+  motivo?: string;
+  sugestao?: string;
+}
+
+export interface CourtInfo {
+  segmento: string;
+  tribunal: string;
+  origem: string;
+  foro?: string;
+}
+
+// Apelidos de foro indexados pela chave normalizada (sem acentos, caixa ou prefixos) e apontando para o nome canônico.
+export type ForoAliases = Record<string, string>;
+
+export type SplitStrategy =
+  | { mode: 'fixed'; pagesPerPart: number }
+  | { mode: 'ranges'; ranges: string }
+  | { mode: 'bookmarks' }
+  | { mode: 'size'; maxBytes: number }
+  | { mode: 'blank' };
+
+export type SplitMode = SplitStrategy['mode'];
+
+// 'process' depende do texto das páginas e do dicionário de foros, por isso é planejado fora do worker.
+export type DivisorMode = SplitMode | 'process';
+
+// Parte planejada pelo Divisor: páginas 1-based, na ordem em que serão copiadas.
+export interface PlannedPart {
+  name: string;
+  pages: number[];
+  estimatedBytes?: number;
+  // Página única que sozinha já passa do tamanho máximo pedido.
+  oversize?: boolean;
+}
+
+// Página de um documento montado pela ferramenta de mesclagem; rotation é somada à rotação original.
+export interface ComposedPage {
+  sourceId: string;
+  page: number;
+  rotation: number;
+}
+
+export interface ComposeSource {
+  id: string;
+  name: string;
+  blob: Blob;
+}
+
+// Número a destacar no PDF original; color em RGB de 0 a 1, como nas anotações PDF.
+export interface HighlightTarget {
+  processo: string;
+  foro: string;
+  color: [number, number, number];
 }